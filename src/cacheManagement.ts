@@ -0,0 +1,87 @@
+import { Firestore } from "firebase/firestore";
+import { getDefaultStore, withCacheErrors } from "./cacheStores.js";
+import { resolveManagedStore } from "./namespacedStore.js";
+import { CacheEntry, CacheManagementOptions } from "./types.js";
+
+// Pass the same `db` and `namespace` the documents were read with, or `namespace: false` for unscoped keys
+const getCacheStore = (options?: CacheManagementOptions) => withCacheErrors(resolveManagedStore(options));
+
+/**
+ * Removes the document from the cache, so the next read requests it from Firestore.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function invalidateDoc(path: string, options?: CacheManagementOptions): Promise<void> {
+    return getCacheStore(options).del(path);
+}
+
+/**
+ * Removes every document whose path starts with the prefix (e.g. `"users/abc/"`) from the cache.
+ * @returns The number of documents removed.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function invalidatePrefix(prefix: string, options?: CacheManagementOptions): Promise<number> {
+    const firestoreWrapperCache = getCacheStore(options);
+    const paths = (await firestoreWrapperCache.keys()).filter(path => path.startsWith(prefix));
+
+    await Promise.all(paths.map(path => firestoreWrapperCache.del(path)));
+    return paths.length;
+}
+
+/**
+ * Removes every document cached for the project and database of `db` (and `namespace`),
+ * without a `db` every document in the store is removed, whatever it was read with.
+**/
+export async function clearCache(options?: CacheManagementOptions): Promise<void> {
+    const cacheStore = options?.db ? resolveManagedStore(options) : options?.cacheStore || getDefaultStore();
+    return withCacheErrors(cacheStore).clear();
+}
+
+/**
+ * Returns the cache entry for the document without requesting it from Firestore,
+ * regardless of whether it's stale.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function peekCache(path: string, options?: CacheManagementOptions): Promise<CacheEntry | undefined> {
+    return getCacheStore(options).get(path);
+}
+
+/**
+ * Locks the cache time of a cached document, just like reading it with `cacheTime.locked` would.
+ * @returns `false` if the document is not in the cache.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function setLockedCacheTime(path: string, time: number, options?: CacheManagementOptions): Promise<boolean> {
+    const firestoreWrapperCache = getCacheStore(options);
+    const cacheEntry = await firestoreWrapperCache.get(path);
+    if (!cacheEntry) {
+        return false;
+    }
+
+    await firestoreWrapperCache.set(path, { ...cacheEntry, persistentCacheTime: time });
+    return true;
+}
+
+/**
+ * Removes the locked cache time of a cached document, so only one-time cache times apply to it.
+ * @returns `false` if the document is not in the cache.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function unlockCacheTime(path: string, options?: CacheManagementOptions): Promise<boolean> {
+    const firestoreWrapperCache = getCacheStore(options);
+    const cacheEntry = await firestoreWrapperCache.get(path);
+    if (!cacheEntry) {
+        return false;
+    }
+
+    const { persistentCacheTime, ...unlockedEntry } = cacheEntry;
+    await firestoreWrapperCache.set(path, unlockedEntry);
+    return true;
+}
+
+/**
+ * Removes every document cached in the namespace from the cache (e.g. the signed-in user's id when they sign out),
+ * without touching the documents cached in other namespaces.
+**/
+export function clearNamespace(db: Firestore, namespace: boolean | string = true, options?: Pick<CacheManagementOptions, "cacheStore">): Promise<void> {
+    return clearCache({ ...options, db, namespace });
+}
@@ -0,0 +1,83 @@
+import { withCacheErrors } from "./cacheStores.js";
+import { isPlainObject } from "./codec.js";
+import { DocWrapperError } from "./errors.js";
+import { resolveManagedStore } from "./namespacedStore.js";
+import { CacheEntry, CacheManagementOptions, CacheSnapshot, LooseObject } from "./types.js";
+
+// Bump it whenever the format of the cache entries changes
+export const CACHE_SNAPSHOT_VERSION = 1;
+
+const isValidEntry = (entry: any): entry is CacheEntry => entry !== null && typeof entry === "object" && typeof entry.fetchedAt === "number";
+
+function parseSnapshot(snapshot: CacheSnapshot | string): LooseObject {
+    if (typeof snapshot !== "string") {
+        return snapshot;
+    }
+    try {
+        return JSON.parse(snapshot);
+    } catch (err) {
+        throw new DocWrapperError("The cache snapshot is malformed", { path: "*", cause: err });
+    }
+}
+
+/**
+ * Returns every entry in the cache (with its `fetchedAt` and `persistentCacheTime`) as a snapshot
+ * that can be turned into JSON, e.g. to ship a seed bundle with the app.
+ * @throws {CacheReadError} If the cache store fails, or can't list its keys.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export async function exportCache(options?: CacheManagementOptions): Promise<CacheSnapshot> {
+    const firestoreWrapperCache = withCacheErrors(resolveManagedStore(options));
+    const keys = await firestoreWrapperCache.keys();
+    const entries = await firestoreWrapperCache.getMany(keys);
+    const snapshotEntries: { [key: string]: CacheEntry } = {};
+
+    keys.forEach((key, index) => {
+        if (!entries[index]) {
+            return;
+        }
+        // Access times only mean something to the store they were tracked in
+        const { lastAccessedAt, ...entry } = entries[index];
+        snapshotEntries[key] = entry;
+    });
+
+    return {
+        version: CACHE_SNAPSHOT_VERSION,
+        exportedAt: Date.now(),
+        entries: snapshotEntries
+    }
+}
+
+/**
+ * Stores the entries of a snapshot made by `exportCache` (or its JSON) in the cache,
+ * entries that are older than the ones already cached are skipped unless `overwrite` is set.
+ * @returns The number of entries imported.
+ * @throws {DocWrapperError} If the snapshot was made by an incompatible version or is malformed,
+ * or there's no `db` and `namespace` isn't `false`.
+ * @throws {CacheReadError | CacheWriteError} If the cache store fails.
+**/
+export async function importCache(snapshot: CacheSnapshot | string, options?: CacheManagementOptions & { overwrite?: boolean }): Promise<number> {
+    const parsedSnapshot = parseSnapshot(snapshot);
+
+    if (parsedSnapshot?.version !== CACHE_SNAPSHOT_VERSION) {
+        throw new DocWrapperError(`The cache snapshot's version (${parsedSnapshot?.version}) is not compatible with this version (${CACHE_SNAPSHOT_VERSION})`, { path: "*" });
+    }
+    if (!isPlainObject(parsedSnapshot.entries)) {
+        throw new DocWrapperError("The cache snapshot is malformed", { path: "*" });
+    }
+    const snapshotEntries = Object.entries(parsedSnapshot.entries) as [string, CacheEntry][];
+    const invalidEntry = snapshotEntries.find(([, entry]) => !isValidEntry(entry));
+    if (invalidEntry) {
+        throw new DocWrapperError("The cache snapshot is malformed", { path: invalidEntry[0] });
+    }
+
+    const firestoreWrapperCache = withCacheErrors(resolveManagedStore(options));
+    const keys = snapshotEntries.map(([key]) => key);
+    const currentEntries = await firestoreWrapperCache.getMany(keys);
+    const newEntries = snapshotEntries.filter(([, entry], index) => options?.overwrite || !currentEntries[index] || currentEntries[index].fetchedAt < entry.fetchedAt);
+
+    if (newEntries.length) {
+        await firestoreWrapperCache.setMany(newEntries);
+    }
+    return newEntries.length;
+}
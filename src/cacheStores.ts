@@ -0,0 +1,129 @@
+import { get, set, del, getMany, setMany, keys, clear, createStore } from "idb-keyval";
+import { CacheReadError, CacheWriteError } from "./errors.js";
+import { CacheEntry, CacheStore } from "./types.js";
+
+/**
+ * The default store, it keeps the cache in IndexedDB using idb-keyval.
+**/
+export function createIndexedDBStore(dbName = "firestoreWrapperCache", storeName = "docs"): CacheStore {
+    const store = createStore(dbName, storeName);
+
+    return {
+        get: key => get(key, store),
+        set: (key, entry) => set(key, entry, store),
+        del: key => del(key, store),
+        getMany: keys => getMany(keys, store),
+        setMany: entries => setMany(entries, store),
+        keys: () => keys<string>(store),
+        clear: () => clear(store)
+    }
+}
+
+const defaultStores = new Map<string, CacheStore>();
+
+/**
+ * The store used when no `cacheStore` is passed (or the one of a client's `storeName`), it's only created once
+ * per IndexedDB database so every call shares the same connection.
+**/
+export function getDefaultStore(dbName = "firestoreWrapperCache"): CacheStore {
+    if (!defaultStores.has(dbName)) {
+        defaultStores.set(dbName, createIndexedDBStore(dbName));
+    }
+    return defaultStores.get(dbName);
+}
+
+/**
+ * Keeps the cache in memory, useful for Node, tests and anywhere else
+ * the cache doesn't need to outlive the process.
+**/
+export function createMemoryStore(): CacheStore {
+    const entries = new Map<string, CacheEntry>();
+
+    return {
+        get: async key => entries.get(key),
+        set: async (key, entry) => { entries.set(key, entry); },
+        del: async key => { entries.delete(key); },
+        getMany: async keys => keys.map(key => entries.get(key)),
+        setMany: async newEntries => { newEntries.forEach(([key, entry]) => entries.set(key, entry)); },
+        keys: async () => Array.from(entries.keys()),
+        clear: async () => entries.clear()
+    }
+}
+
+/**
+ * Keeps the cache in a Web Storage object (`localStorage` by default or `sessionStorage`),
+ * entries are serialized as JSON and their keys are prefixed to avoid clashing with other data.
+**/
+export function createWebStorageStore(storage: Storage = globalThis.localStorage, prefix = "firestoreWrapperCache:"): CacheStore {
+    const getKeys = () => {
+        const keys: string[] = [];
+        for (let index = 0; index < storage.length; index++) {
+            const storageKey = storage.key(index);
+            if (storageKey?.startsWith(prefix)) {
+                keys.push(storageKey.slice(prefix.length));
+            }
+        }
+        return keys;
+    }
+
+    return {
+        get: async key => {
+            const rawEntry = storage.getItem(prefix + key);
+            return rawEntry === null ? undefined : JSON.parse(rawEntry);
+        },
+        set: async (key, entry) => storage.setItem(prefix + key, JSON.stringify(entry)),
+        del: async key => storage.removeItem(prefix + key),
+        keys: async () => getKeys(),
+        clear: async () => getKeys().forEach(key => storage.removeItem(prefix + key))
+    }
+}
+
+export function getManyEntries(cacheStore: CacheStore, keys: string[]): Promise<(CacheEntry | undefined)[]> {
+    if (cacheStore.getMany) {
+        return cacheStore.getMany(keys);
+    }
+    return Promise.all(keys.map(key => cacheStore.get(key)));
+}
+
+export async function setManyEntries(cacheStore: CacheStore, entries: [string, CacheEntry][]): Promise<void> {
+    if (cacheStore.setMany) {
+        return cacheStore.setMany(entries);
+    }
+    await Promise.all(entries.map(([key, entry]) => cacheStore.set(key, entry)));
+}
+
+export function getKeys(cacheStore: CacheStore): Promise<string[]> {
+    if (!cacheStore.keys) {
+        return Promise.reject(new Error("The cache store can't list its keys"));
+    }
+    return cacheStore.keys();
+}
+
+export async function clearEntries(cacheStore: CacheStore): Promise<void> {
+    if (cacheStore.clear) {
+        return cacheStore.clear();
+    }
+    const keys = await getKeys(cacheStore);
+    await Promise.all(keys.map(key => cacheStore.del(key)));
+}
+
+/**
+ * Wraps the store so its failures are thrown as `CacheReadError`s and `CacheWriteError`s,
+ * this way they can't be mistaken for Firestore errors.
+**/
+export function withCacheErrors(cacheStore: CacheStore): CacheStore {
+    const readError = (path: string) => (err: any) => { throw new CacheReadError("Couldn't read the document from the cache", { path, cause: err }); };
+    const writeError = (path: string) => (err: any) => { throw new CacheWriteError("Couldn't write the document to the cache", { path, cause: err }); };
+
+    return {
+        get: key => cacheStore.get(key).catch(readError(key)),
+        set: (key, entry) => cacheStore.set(key, entry).catch(writeError(key)),
+        del: key => cacheStore.del(key).catch(writeError(key)),
+        getMany: keys => getManyEntries(cacheStore, keys).catch(readError(keys.join(", "))),
+        setMany: entries => setManyEntries(cacheStore, entries).catch(writeError(entries.map(([key]) => key).join(", "))),
+        keys: () => getKeys(cacheStore).catch(readError("*")),
+        clear: () => clearEntries(cacheStore).catch(writeError("*")),
+        lock: cacheStore.lock,
+        onChange: cacheStore.onChange
+    }
+}
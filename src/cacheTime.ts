@@ -0,0 +1,131 @@
+import { encodeDoc } from "./codec.js";
+import { CacheEntry, CacheOptions, CacheReason, LooseObject } from "./types.js";
+
+type CacheTime = {
+    time: number | undefined,
+    kind: "locked time" | "one-time" | "missing doc"
+}
+
+type CacheStatus = {
+    fresh: boolean,
+    reason: CacheReason
+}
+
+/**
+ * Returns the cache time the entry should be checked against (and which kind of cache time it is),
+ * or `undefined` if it shouldn't be used at all.
+ * 
+ * When the cache is disabled only a previously locked cache time is respected.
+**/
+function getCacheTime(cacheEntry: CacheEntry, cacheOptions?: CacheOptions): CacheTime | undefined {
+    const persistentCacheTime = cacheEntry.persistentCacheTime;
+
+    if (!cacheOptions?.enabled) {
+        return persistentCacheTime ? { time: persistentCacheTime, kind: "locked time" } : undefined;
+    }
+
+    // If the user has choosen to force a refresh, ignore the cache
+    // regardless of the cache time (locked or one-time) and whether bypassLocked time is set
+    if (cacheOptions.forceRefresh) {
+        return undefined;
+    }
+
+    // Missing documents can have their own cache time, e.g. to check again sooner whether they were created
+    if (!cacheEntryExists(cacheEntry) && cacheOptions.missingDocTime !== undefined) {
+        return { time: cacheOptions.missingDocTime, kind: "missing doc" };
+    }
+
+    // If a locked cache time was set previously
+    // and the user hasn't choosen to bypass it
+    if (persistentCacheTime && !cacheOptions.cacheTime?.bypassLockedTime) {
+
+        // If the user is overriding the previously
+        // locked cache time by setting a new one
+        if (cacheOptions.cacheTime?.locked) {
+            return { time: cacheOptions.cacheTime.time, kind: "locked time" };
+        }
+
+        // If the user is not overriding the previously locked cache time,
+        // check against the previously locked cache time
+        return { time: persistentCacheTime, kind: "locked time" };
+    }
+
+    // If a locked cache time was not set previously, or the user has choosen to override it,
+    // check against the one-time cache time
+    return { time: cacheOptions.cacheTime?.time, kind: "one-time" };
+}
+
+/**
+ * Tells whether the cached document exists, as opposed to being cached as missing.
+**/
+export function cacheEntryExists(cacheEntry: CacheEntry): boolean {
+    return cacheEntry.exists ?? cacheEntry.doc !== undefined;
+}
+
+/**
+ * Checks whether a cache entry can be used instead of requesting the document from Firestore,
+ * and tells why.
+**/
+export function getCacheStatus(cacheEntry: CacheEntry | undefined, cacheOptions?: CacheOptions): CacheStatus {
+    if (!cacheEntry) {
+        return { fresh: false, reason: "not cached" };
+    }
+
+    const cacheTime = getCacheTime(cacheEntry, cacheOptions);
+    if (!cacheTime) {
+        return { fresh: false, reason: cacheOptions?.enabled ? "force refresh" : "cache disabled" };
+    }
+
+    const fresh = (Date.now() - cacheEntry.fetchedAt) < cacheTime.time;
+    return { fresh, reason: `${cacheTime.kind} ${fresh ? "valid" : "stale"}` };
+}
+
+/**
+ * Checks whether a cache entry can be used instead of requesting the document from Firestore.
+**/
+export function isCacheEntryFresh(cacheEntry: CacheEntry | undefined, cacheOptions?: CacheOptions): boolean {
+    return getCacheStatus(cacheEntry, cacheOptions).fresh;
+}
+
+/**
+ * Checks whether a stale cache entry can still be returned while it's refreshed in the background.
+**/
+export function isCacheEntryRevalidatable(cacheEntry: CacheEntry | undefined, cacheOptions?: CacheOptions): boolean {
+    if (!cacheEntry || !cacheOptions?.enabled || cacheOptions.forceRefresh || !cacheOptions.staleWhileRevalidate?.enabled) {
+        return false;
+    }
+
+    const cacheTime = getCacheTime(cacheEntry, cacheOptions)?.time ?? 0;
+    const maxStale = cacheOptions.staleWhileRevalidate.maxStale ?? Number.POSITIVE_INFINITY;
+
+    return (Date.now() - cacheEntry.fetchedAt) < (cacheTime + maxStale);
+}
+
+/**
+ * Checks whether a stale cache entry can be returned because the new document couldn't be fetched.
+**/
+export function canFallbackToStale(cacheEntry: CacheEntry | undefined, cacheOptions?: CacheOptions): boolean {
+    if (!cacheEntry || !cacheOptions?.enabled || !cacheOptions.fallbackToStaleOnError?.enabled) {
+        return false;
+    }
+
+    const maxAge = cacheOptions.fallbackToStaleOnError.maxAge ?? Number.POSITIVE_INFINITY;
+
+    return (Date.now() - cacheEntry.fetchedAt) < maxAge;
+}
+
+export function createCacheEntry(doc: LooseObject, cacheOptions?: CacheOptions): CacheEntry {
+    const newDocEntry: CacheEntry = {
+        fetchedAt: Date.now(),
+        exists: doc !== undefined,
+        // Firestore types are encoded so every store keeps them, `convertDoc` decodes them
+        doc: encodeDoc(doc)
+    }
+
+    // If the user has choosen to lock the cache time, store it
+    if (cacheOptions?.cacheTime?.locked) {
+        newDocEntry.persistentCacheTime = cacheOptions.cacheTime.time;
+    }
+
+    return newDocEntry;
+}
@@ -0,0 +1,79 @@
+import { AbortError, DocWrapperError, TimeoutError } from "./errors.js";
+
+export type Cancellation = {
+    // Rejects with an `AbortError` or a `TimeoutError` once the request is cancelled
+    cancelled: Promise<never>,
+    throwIfCancelled: () => void,
+    cleanup: () => void
+}
+
+/**
+ * Combines the abort signal and the timeout into a single cancellation,
+ * returns `undefined` if neither of them was set.
+**/
+export function createCancellation(path: string, signal?: AbortSignal, timeoutMs?: number): Cancellation | undefined {
+    if (!signal && timeoutMs === undefined) {
+        return undefined;
+    }
+
+    let cancellationError: DocWrapperError | undefined;
+    let cancel: (err: DocWrapperError) => void;
+    const cancelled = new Promise<never>((_, reject) => {
+        cancel = err => {
+            if (!cancellationError) {
+                cancellationError = err;
+                reject(err);
+            }
+        }
+    });
+    // Nobody might be listening when it's cancelled, that's fine
+    cancelled.catch(() => {});
+
+    const onAbort = () => cancel(new AbortError("The request was aborted", { path, cause: signal.reason }));
+    if (signal?.aborted) {
+        onAbort();
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    const startedAt = Date.now();
+    const timer = timeoutMs !== undefined ? setTimeout(() => {
+        cancel(new TimeoutError(`The request took longer than ${timeoutMs}ms`, { path, elapsedTime: Date.now() - startedAt }));
+    }, timeoutMs) : undefined;
+
+    return {
+        cancelled,
+        throwIfCancelled: () => {
+            if (cancellationError) {
+                throw cancellationError;
+            }
+        },
+        cleanup: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        }
+    }
+}
+
+/**
+ * Rejects as soon as the request is cancelled, even if the promise is still pending.
+**/
+export function raceCancellation<T>(promise: Promise<T>, cancellation?: Cancellation): Promise<T> {
+    if (!cancellation) {
+        return promise;
+    }
+    return Promise.race([promise, cancellation.cancelled]);
+}
+
+/**
+ * Runs the request with the cancellation described by `signal` and `timeoutMs`,
+ * making sure the timeout and the abort listener are cleaned up afterwards.
+**/
+export async function withCancellation<R>(path: string, options: { signal?: AbortSignal, timeoutMs?: number } | undefined, request: (cancellation?: Cancellation) => Promise<R>): Promise<R> {
+    const cancellation = createCancellation(path, options?.signal, options?.timeoutMs);
+
+    try {
+        return await raceCancellation(request(cancellation), cancellation);
+    } finally {
+        cancellation?.cleanup();
+    }
+}
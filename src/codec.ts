@@ -0,0 +1,66 @@
+import { Bytes, doc as docRef, DocumentReference, Firestore, GeoPoint, Timestamp } from "firebase/firestore";
+import { LooseObject } from "./types.js";
+
+// Marks the values that have to be turned back into Firestore types when they're read from the cache
+const TYPE_FIELD = "__firestoreWrapperType";
+
+// Objects cloned by IndexedDB can come from another realm, so their prototype is compared by position instead of identity
+export const isPlainObject = (value: any): value is LooseObject => {
+    if (value === null || typeof value !== "object") {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
+
+/**
+ * Turns the Firestore types in the document (`Timestamp`, `GeoPoint`, `DocumentReference` and `Bytes`)
+ * into plain objects, so they survive being stored as JSON or cloned into IndexedDB.
+**/
+export function encodeDoc(value: any): any {
+    if (value instanceof Timestamp) {
+        return { [TYPE_FIELD]: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds };
+    }
+    if (value instanceof GeoPoint) {
+        return { [TYPE_FIELD]: "geopoint", latitude: value.latitude, longitude: value.longitude };
+    }
+    if (value instanceof DocumentReference) {
+        return { [TYPE_FIELD]: "reference", path: value.path };
+    }
+    if (value instanceof Bytes) {
+        return { [TYPE_FIELD]: "bytes", base64: value.toBase64() };
+    }
+    if (Array.isArray(value)) {
+        return value.map(encodeDoc);
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, fieldValue]) => [key, encodeDoc(fieldValue)]));
+    }
+    return value;
+}
+
+/**
+ * Turns the values encoded by `encodeDoc` back into Firestore types,
+ * document references are created against `db`.
+**/
+export function decodeDoc(db: Firestore, value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(item => decodeDoc(db, item));
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+
+    switch (value[TYPE_FIELD]) {
+        case "timestamp":
+            return new Timestamp(value.seconds, value.nanoseconds);
+        case "geopoint":
+            return new GeoPoint(value.latitude, value.longitude);
+        case "reference":
+            return docRef(db, value.path);
+        case "bytes":
+            return Bytes.fromBase64String(value.base64);
+        default:
+            return Object.fromEntries(Object.entries(value).map(([key, fieldValue]) => [key, decodeDoc(db, fieldValue)]));
+    }
+}
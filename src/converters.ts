@@ -0,0 +1,37 @@
+import { doc as docRef, DocumentData, Firestore, QueryDocumentSnapshot } from "firebase/firestore";
+import { decodeDoc } from "./codec.js";
+import { Options } from "./types.js";
+
+/**
+ * Runs the document data through the converter and the validator (in that order) if they were set.
+ * 
+ * The data is always passed as it's stored in the cache, so the converter receives a snapshot
+ * built from it that only provides `id`, `ref`, `exists`, `data` and `get`,
+ * this way cached and fresh documents always come out with the same shape.
+ * Firestore types encoded in the cache (e.g. `Timestamp`s) are decoded before that.
+**/
+export function convertDoc<T>(db: Firestore, path: string, data: DocumentData | undefined, options?: Pick<Options<T>, "converter" | "validate">): T | undefined {
+    if (data === undefined) {
+        return undefined;
+    }
+
+    data = decodeDoc(db, data);
+    let convertedData: any = data;
+    if (options?.converter) {
+        const snapshot = {
+            id: path.split("/").pop(),
+            ref: docRef(db, path),
+            exists: () => true,
+            data: () => data,
+            get: (fieldPath: string) => fieldPath.split(".").reduce((value, field) => value?.[field], data)
+        } as unknown as QueryDocumentSnapshot<DocumentData>;
+
+        convertedData = options.converter.fromFirestore(snapshot);
+    }
+
+    if (options?.validate) {
+        convertedData = options.validate(convertedData);
+    }
+
+    return convertedData;
+}
@@ -0,0 +1,105 @@
+import { Firestore } from "firebase/firestore";
+import { clearCache, invalidateDoc, invalidatePrefix, peekCache, setLockedCacheTime, unlockCacheTime } from "./cacheManagement.js";
+import { exportCache, importCache } from "./cacheSnapshot.js";
+import { getDefaultStore } from "./cacheStores.js";
+import { withCancellation } from "./cancellation.js";
+import { getDocsWrapper, prefetchDocs } from "./getDocsWrapper.js";
+import { getDocsQueryWrapper } from "./getDocsQueryWrapper.js";
+import { getCacheNamespace, getNamespacedStore } from "./namespacedStore.js";
+import { getStats } from "./observability.js";
+import { readDoc } from "./readDoc.js";
+import { subscribeDocWrapper } from "./subscribeDocWrapper.js";
+import { deleteDocWrapper, setDocWrapper, updateDocWrapper } from "./writeDoc.js";
+import { BatchOptions, DocResults, DocWrapperClient, DocWrapperConfig, LooseObject, Options } from "./types.js";
+
+// Converters, stores, signals and the like are replaced as a whole, only plain objects are merged
+const isPlainObject = (value: any): value is LooseObject => value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+
+function mergeOptions<O extends LooseObject>(...layers: (LooseObject | undefined)[]): O {
+    return layers.reduce<LooseObject>((merged, layer) => {
+        Object.entries(layer || {}).forEach(([key, value]) => {
+            if (value === undefined) {
+                return;
+            }
+            merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeOptions(merged[key], value) : value;
+        });
+        return merged;
+    }, {}) as O;
+}
+
+function matchesPattern(path: string, pattern: string): boolean {
+    const segments = path.split("/");
+    const patternSegments = pattern.split("/");
+    return segments.length === patternSegments.length && patternSegments.every((segment, index) => segment === "*" || segment === segments[index]);
+}
+
+/**
+ * Creates a client bound to `db`, so the options shared by every call only have to be written once.
+ * 
+ * The options passed to each call are deep merged over the `overrides` matching the path,
+ * which are deep merged over the `defaults`.
+ * 
+ * The client's cache is kept in the IndexedDB database named `storeName` (unless the defaults have a `cacheStore`),
+ * and its keys are prefixed with the project, the database and the `namespace` if there's one.
+**/
+export function createDocWrapper(db: Firestore, config?: DocWrapperConfig): DocWrapperClient {
+    const baseStore = config?.defaults?.cacheStore || getDefaultStore(config?.storeName);
+    // The store is only created once, so every call shares its pending requests and listeners
+    const cacheStore = getNamespacedStore(baseStore, getCacheNamespace(db, config?.namespace ?? true));
+    // The client's store is already namespaced, so the calls must not namespace it again
+    const storeOptions = { cacheStore, namespace: false };
+
+    const findOverride = (path: string) => Object.entries(config?.overrides || {}).find(([pattern]) => matchesPattern(path, pattern));
+    // Paths matching different overrides can't share the same options, so they're requested separately
+    const groupByOverride = (paths: string[]): string[][] => {
+        const pathsByPattern = new Map<string, string[]>();
+        paths.forEach(path => {
+            const pattern = findOverride(path)?.[0] ?? "";
+            pathsByPattern.set(pattern, [...(pathsByPattern.get(pattern) || []), path]);
+        });
+        return Array.from(pathsByPattern.values());
+    }
+    const getOptions = <O extends Options<any>>(path: string, options?: O): O => mergeOptions<O>(config?.defaults, findOverride(path)?.[1], options, storeOptions);
+    // `onRevalidate` has a different signature for batches, so only the one passed to the call is kept
+    const getBatchOptions = (path: string, options?: BatchOptions<any>): BatchOptions<any> => {
+        const { onRevalidate, ...pathOptions } = getOptions(path);
+        return mergeOptions(pathOptions, options, storeOptions);
+    }
+
+    const getDetailed: DocWrapperClient["getDetailed"] = (path, options) => {
+        const pathOptions = getOptions(path, options);
+        return withCancellation(path, pathOptions, cancellation => readDoc(db, path, pathOptions, cancellation));
+    }
+
+    return {
+        get: async (path, options) => (await getDetailed(path, options)).data,
+        getDetailed,
+        getMany: async (paths, options) => {
+            const results = await Promise.all(groupByOverride(paths).map(group => getDocsWrapper(db, group, getBatchOptions(group[0], options))));
+            return Object.assign({}, ...results) as DocResults<any>;
+        },
+        prefetch: async (paths, options) => {
+            const counts = await Promise.all(groupByOverride(paths).map(group => prefetchDocs(db, group, getBatchOptions(group[0], options))));
+            return counts.reduce((total, count) => total + count, 0);
+        },
+        // Queries aren't matched against the overrides, and `onRevalidate` has a different signature for them
+        query: (query, options) => {
+            const { onRevalidate, ...defaults } = config?.defaults || {};
+            return getDocsQueryWrapper(query, mergeOptions(defaults, options, storeOptions));
+        },
+        subscribe: (path, options, callback, onError) => subscribeDocWrapper(db, path, getOptions(path, options), callback, onError),
+        set: (path, data, options) => setDocWrapper(db, path, data, getOptions(path, options)),
+        update: (path, data, options) => updateDocWrapper(db, path, data, getOptions(path, options)),
+        delete: (path, options) => deleteDocWrapper(db, path, getOptions(path, options)),
+        invalidate: path => invalidateDoc(path, storeOptions),
+        invalidatePrefix: prefix => invalidatePrefix(prefix, storeOptions),
+        clear: () => clearCache(storeOptions),
+        peek: path => peekCache(path, storeOptions),
+        setLockedCacheTime: (path, time) => setLockedCacheTime(path, time, storeOptions),
+        unlockCacheTime: path => unlockCacheTime(path, storeOptions),
+        getStats: () => getStats(storeOptions),
+        exportCache: () => exportCache(storeOptions),
+        importCache: (snapshot, options) => importCache(snapshot, { ...options, ...storeOptions }),
+        cacheStore
+    }
+}
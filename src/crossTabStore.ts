@@ -0,0 +1,57 @@
+import { clearEntries, setManyEntries } from "./cacheStores.js";
+import { CacheChange, CacheStore, CrossTabCacheStore } from "./types.js";
+
+type CrossTabOptions = {
+    channelName?: string,
+    locks?: LockManager
+}
+
+/**
+ * Wraps a store shared between tabs (e.g. IndexedDB) so they can coordinate:
+ * every write, deletion and clear is broadcast to the other tabs (see `onChange`),
+ * and entries are refreshed under a Web Lock so only one tab requests the same document at a time.
+ * 
+ * Without `BroadcastChannel` or Web Locks the store still works, just without that part of the coordination.
+**/
+export function createCrossTabStore(cacheStore: CacheStore, options?: CrossTabOptions): CrossTabCacheStore {
+    const channelName = options?.channelName || "firestoreWrapperCache";
+    const locks = options?.locks || globalThis.navigator?.locks;
+    const listeners = new Set<(change: CacheChange) => void>();
+
+    const channel: BroadcastChannel | undefined = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(channelName) : undefined;
+    // Don't keep Node processes alive just to listen to other tabs
+    (channel as { unref?: () => void } | undefined)?.unref?.();
+    if (channel) {
+        channel.onmessage = event => listeners.forEach(listener => listener(event.data));
+    }
+
+    const broadcast = (change: CacheChange) => channel?.postMessage(change);
+
+    return {
+        get: key => cacheStore.get(key),
+        set: async (key, entry) => {
+            await cacheStore.set(key, entry);
+            broadcast({ type: "set", key, entry });
+        },
+        del: async key => {
+            await cacheStore.del(key);
+            broadcast({ type: "del", key });
+        },
+        getMany: cacheStore.getMany,
+        setMany: async entries => {
+            await setManyEntries(cacheStore, entries);
+            entries.forEach(([key, entry]) => broadcast({ type: "set", key, entry }));
+        },
+        keys: cacheStore.keys,
+        clear: async () => {
+            await clearEntries(cacheStore);
+            broadcast({ type: "clear" });
+        },
+        lock: (key, task) => locks ? locks.request(`${channelName}:${key}`, task) : task(),
+        onChange: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        close: () => channel?.close()
+    }
+}
@@ -0,0 +1,63 @@
+type ErrorDetails = {
+    path: string,
+    cause?: any,
+    attempts?: number,
+    elapsedTime?: number
+}
+
+/**
+ * The base class for every error thrown by the wrapper,
+ * `cause` holds the underlying error (e.g. the last Firestore error).
+**/
+export class DocWrapperError extends Error {
+    path: string;
+    cause: any;
+    attempts?: number;
+    elapsedTime?: number;
+
+    constructor(message: string, details: ErrorDetails) {
+        super(message);
+        this.name = new.target.name;
+        this.path = details.path;
+        this.cause = details.cause;
+        this.attempts = details.attempts;
+        this.elapsedTime = details.elapsedTime;
+    }
+}
+
+/**
+ * Thrown when the document couldn't be fetched and there are no retries left,
+ * either because `maxRetries` was reached or retrying is disabled.
+**/
+export class RetryExhaustedError extends DocWrapperError {}
+
+/**
+ * Thrown when Firestore threw an error whose code is not in the list of error codes to retry on.
+**/
+export class NonRetryableError extends DocWrapperError {}
+
+/**
+ * Thrown when the cache store fails to read an entry.
+**/
+export class CacheReadError extends DocWrapperError {}
+
+/**
+ * Thrown when the cache store fails to write or delete an entry.
+**/
+export class CacheWriteError extends DocWrapperError {}
+
+/**
+ * Thrown when the document doesn't exist and `options.throwIfMissing` is set.
+**/
+export class DocumentNotFoundError extends DocWrapperError {}
+
+/**
+ * Thrown when the request was cancelled through `options.signal`,
+ * `cause` holds the signal's abort reason.
+**/
+export class AbortError extends DocWrapperError {}
+
+/**
+ * Thrown when the request took longer than `options.timeoutMs`.
+**/
+export class TimeoutError extends DocWrapperError {}
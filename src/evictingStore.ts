@@ -0,0 +1,166 @@
+import { getManyEntries } from "./cacheStores.js";
+import { CacheEntry, CacheLimits, CacheStore, EvictingCacheStore, EvictionStats } from "./types.js";
+
+type EntryInfo = {
+    fetchedAt: number,
+    persistentCacheTime?: number,
+    lastAccessedAt: number,
+    size: number
+}
+
+// Sizes are approximate, it's the length of the entry serialized as JSON
+const getEntryInfo = (entry: CacheEntry): EntryInfo => ({
+    fetchedAt: entry.fetchedAt,
+    persistentCacheTime: entry.persistentCacheTime,
+    lastAccessedAt: entry.lastAccessedAt ?? entry.fetchedAt,
+    size: JSON.stringify(entry).length
+});
+
+/**
+ * Wraps a store to keep it within the given limits, whenever an entry is written
+ * (and every `sweepInterval` milliseconds, if set) the entries past their locked cache time
+ * or `maxAge` are removed, then the least recently used ones until there are no more than
+ * `maxEntries` and they take no more than `maxBytes`.
+ * 
+ * The store must be able to list its keys, which all built-in stores can.
+**/
+export function createEvictingStore(cacheStore: CacheStore, limits: CacheLimits): EvictingCacheStore {
+    const stats: EvictionStats = {
+        expired: 0,
+        evicted: 0
+    }
+    let entryInfos: Promise<Map<string, EntryInfo>> | undefined;
+    let pendingSweep: Promise<number> = Promise.resolve(0);
+
+    // The access times are tracked in memory so reading an entry never writes to the store,
+    // they're only persisted (as `lastAccessedAt`) when the entry itself is written
+    function getEntryInfos(): Promise<Map<string, EntryInfo>> {
+        if (!entryInfos) {
+            entryInfos = (async () => {
+                const keys = await cacheStore.keys();
+                const entries = await getManyEntries(cacheStore, keys);
+                const infos = new Map<string, EntryInfo>();
+
+                keys.forEach((key, index) => {
+                    if (entries[index]) {
+                        infos.set(key, getEntryInfo(entries[index]));
+                    }
+                });
+                return infos;
+            })();
+            // Try again next time if the store couldn't be read
+            entryInfos.catch(() => { entryInfos = undefined; });
+        }
+        return entryInfos;
+    }
+
+    async function removeEntries(infos: Map<string, EntryInfo>, keys: string[]) {
+        keys.forEach(key => infos.delete(key));
+        await Promise.all(keys.map(key => cacheStore.del(key)));
+    }
+
+    async function runSweep(): Promise<number> {
+        const infos = await getEntryInfos();
+        const now = Date.now();
+
+        const expiredKeys = Array.from(infos.entries())
+        .filter(([, info]) => {
+            const age = now - info.fetchedAt;
+            return (info.persistentCacheTime && age >= info.persistentCacheTime) || age >= (limits.maxAge ?? Number.POSITIVE_INFINITY);
+        })
+        .map(([key]) => key);
+        await removeEntries(infos, expiredKeys);
+
+        const maxEntries = limits.maxEntries ?? Number.POSITIVE_INFINITY;
+        const maxBytes = limits.maxBytes ?? Number.POSITIVE_INFINITY;
+        const leastRecentlyUsed = Array.from(infos.entries()).sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt);
+        let entryCount = leastRecentlyUsed.length;
+        let byteCount = leastRecentlyUsed.reduce((total, [, info]) => total + info.size, 0);
+
+        const evictedKeys: string[] = [];
+        for (const [key, info] of leastRecentlyUsed) {
+            if (entryCount <= maxEntries && byteCount <= maxBytes) {
+                break;
+            }
+            evictedKeys.push(key);
+            entryCount--;
+            byteCount -= info.size;
+        }
+        await removeEntries(infos, evictedKeys);
+
+        stats.expired += expiredKeys.length;
+        stats.evicted += evictedKeys.length;
+        return expiredKeys.length + evictedKeys.length;
+    }
+
+    function sweep(): Promise<number> {
+        pendingSweep = pendingSweep.catch(() => 0).then(runSweep);
+        return pendingSweep;
+    }
+
+    async function markAccessed(keys: string[], entries: (CacheEntry | undefined)[]) {
+        const infos = await getEntryInfos();
+        const now = Date.now();
+
+        keys.forEach((key, index) => {
+            const info = infos.get(key);
+            if (entries[index] && info) {
+                info.lastAccessedAt = now;
+            }
+        });
+    }
+
+    async function setEntries(entries: [string, CacheEntry][]) {
+        const infos = await getEntryInfos();
+        const now = Date.now();
+        const accessedEntries = entries.map(([key, entry]): [string, CacheEntry] => [key, { ...entry, lastAccessedAt: now }]);
+
+        if (accessedEntries.length === 1) {
+            await cacheStore.set(...accessedEntries[0]);
+        } else if (cacheStore.setMany) {
+            await cacheStore.setMany(accessedEntries);
+        } else {
+            await Promise.all(accessedEntries.map(([key, entry]) => cacheStore.set(key, entry)));
+        }
+        accessedEntries.forEach(([key, entry]) => infos.set(key, getEntryInfo(entry)));
+
+        await sweep();
+    }
+
+    const timer: ReturnType<typeof setInterval> | undefined = limits.sweepInterval ? setInterval(() => sweep().catch(() => {}), limits.sweepInterval) : undefined;
+    // Don't keep Node processes alive just to sweep the cache
+    timer?.unref?.();
+
+    return {
+        get: async key => {
+            const entry = await cacheStore.get(key);
+            await markAccessed([key], [entry]);
+            return entry;
+        },
+        set: (key, entry) => setEntries([[key, entry]]),
+        del: async key => {
+            await cacheStore.del(key);
+            (await getEntryInfos()).delete(key);
+        },
+        getMany: async keys => {
+            const entries = await getManyEntries(cacheStore, keys);
+            await markAccessed(keys, entries);
+            return entries;
+        },
+        setMany: entries => setEntries(entries),
+        keys: () => cacheStore.keys(),
+        clear: async () => {
+            if (cacheStore.clear) {
+                await cacheStore.clear();
+            } else {
+                await Promise.all((await cacheStore.keys()).map(key => cacheStore.del(key)));
+            }
+            (await getEntryInfos()).clear();
+        },
+        lock: cacheStore.lock,
+        onChange: cacheStore.onChange,
+        sweep,
+        getEvictionStats: () => ({ ...stats }),
+        stop: () => clearInterval(timer)
+    }
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import { CacheEntry, CacheStore } from "./types.js";
+
+type CacheFile = {
+    [key: string]: CacheEntry
+}
+
+/**
+ * Keeps the cache in a JSON file, only works in Node.
+ * 
+ * This lives outside of the main entry point so browser bundles don't pull in `fs`,
+ * import it from `firestore-get-doc-wrapper/dist/fileStore.js`.
+**/
+export function createFileStore(filePath: string): CacheStore {
+    // Writes are chained so concurrent calls don't overwrite each other's changes
+    let pendingWrite: Promise<void> = Promise.resolve();
+
+    async function readCacheFile(): Promise<CacheFile> {
+        try {
+            return JSON.parse(await fs.readFile(filePath, "utf8"));
+        } catch (err) {
+            if (err?.code === "ENOENT") {
+                return {};
+            }
+            throw err;
+        }
+    }
+
+    function updateCacheFile(update: (cacheFile: CacheFile) => void): Promise<void> {
+        pendingWrite = pendingWrite
+        .catch(() => {})
+        .then(async () => {
+            const cacheFile = await readCacheFile();
+            update(cacheFile);
+            await fs.writeFile(filePath, JSON.stringify(cacheFile));
+        });
+        return pendingWrite;
+    }
+
+    return {
+        get: async key => {
+            await pendingWrite.catch(() => {});
+            return (await readCacheFile())[key];
+        },
+        set: (key, entry) => updateCacheFile(cacheFile => { cacheFile[key] = entry; }),
+        del: key => updateCacheFile(cacheFile => { delete cacheFile[key]; }),
+        getMany: async keys => {
+            await pendingWrite.catch(() => {});
+            const cacheFile = await readCacheFile();
+            return keys.map(key => cacheFile[key]);
+        },
+        setMany: entries => updateCacheFile(cacheFile => {
+            entries.forEach(([key, entry]) => { cacheFile[key] = entry; });
+        }),
+        keys: async () => {
+            await pendingWrite.catch(() => {});
+            return Object.keys(await readCacheFile());
+        },
+        clear: () => updateCacheFile(cacheFile => {
+            Object.keys(cacheFile).forEach(key => { delete cacheFile[key]; });
+        })
+    }
+}
+
+export default createFileStore;
@@ -0,0 +1,93 @@
+import { CollectionReference, DocumentData, endAt, endBefore, getDocs, limit, limitToLast, orderBy, Query, query as firestoreQuery, QueryConstraint, startAfter, startAt, where } from "firebase/firestore";
+import { withCancellation } from "./cancellation.js";
+import { encodeDoc } from "./codec.js";
+import { convertDoc } from "./converters.js";
+import { DocWrapperError } from "./errors.js";
+import { resolveCacheStore } from "./namespacedStore.js";
+import { observeRetries } from "./observability.js";
+import { readCached } from "./readDoc.js";
+import { requestWithRetries } from "./requestDoc.js";
+import { LooseObject, QueryDoc, QueryOptions, QuerySpec } from "./types.js";
+
+type CachedQueryDoc = {
+    id: string,
+    path: string,
+    data: LooseObject | undefined
+}
+
+const isQuerySpec = (query: Query | QuerySpec): query is QuerySpec => !(query instanceof Query);
+
+function toQuery(spec: QuerySpec): Query {
+    const constraints: QueryConstraint[] = [
+        ...(spec.where || []).map(([fieldPath, opStr, value]) => where(fieldPath, opStr, value)),
+        ...(spec.orderBy || []).map(([fieldPath, directionStr]) => orderBy(fieldPath, directionStr))
+    ];
+    if (spec.limit !== undefined) {
+        constraints.push(limit(spec.limit));
+    }
+    if (spec.limitToLast !== undefined) {
+        constraints.push(limitToLast(spec.limitToLast));
+    }
+    const cursors = [[spec.startAt, startAt], [spec.startAfter, startAfter], [spec.endAt, endAt], [spec.endBefore, endBefore]] as const;
+    cursors.forEach(([values, cursor]) => {
+        if (values) {
+            constraints.push(cursor(...values));
+        }
+    });
+
+    return firestoreQuery(spec.collection, ...constraints);
+}
+
+/**
+ * Derives a stable cache key from a `QuerySpec`'s collection and constraints, equal specs always get the same key,
+ * and from the path of a collection passed as a `Query`.
+ * Firestore doesn't expose the constraints of other queries, so they need their own `cacheKey` and this throws a `DocWrapperError` for them.
+**/
+export function getQueryCacheKey(query: Query | QuerySpec): string {
+    if (isQuerySpec(query)) {
+        // Listed in a fixed order (and with Firestore types encoded) so the key doesn't depend on how the spec was written
+        const constraints = [query.where, query.orderBy, query.limit, query.limitToLast, query.startAt, query.startAfter, query.endAt, query.endBefore].map(constraint => constraint ?? null);
+        // A spec without constraints is the whole collection, so it shares the collection's key
+        if (constraints.every(constraint => constraint === null)) {
+            return `query:${query.collection.path}`;
+        }
+        return `query:${query.collection.path}:${JSON.stringify(encodeDoc(constraints))}`;
+    }
+    if (query.type !== "collection") {
+        throw new DocWrapperError("Only the cache key of a collection or a QuerySpec can be derived, set a cacheKey for other queries", { path: "*" });
+    }
+    return `query:${(query as CollectionReference).path}`;
+}
+
+/**
+ * Works like `getDocWrapper` but for queries, the whole result set (ids and data) is cached
+ * under `cacheKey` with the same cache rules, which can be left out for a whole collection or a query described
+ * as a `QuerySpec` (see `getQueryCacheKey`).
+ * 
+ * Documents are requested without the query's own converter so they're cached as they come
+ * from Firestore, pass `converter` in the options to convert them.
+**/
+export async function getDocsQueryWrapper<T = DocumentData>(queryOrSpec: Query | QuerySpec, options?: QueryOptions<T>): Promise<QueryDoc<T>[]> {
+    const key = options?.cacheKey || getQueryCacheKey(queryOrSpec);
+    const query = isQuerySpec(queryOrSpec) ? toQuery(queryOrSpec) : queryOrSpec;
+    const db = query.firestore;
+    const cacheStore = resolveCacheStore(db, options);
+
+    return withCancellation(key, options, async cancellation => {
+        const details = await readCached({
+            key,
+            fetch: async requestCancellation => {
+                const { result, retries } = await requestWithRetries(key, () => getDocs(query.withConverter(null)), observeRetries(cacheStore, key, options?.retryOptions, options?.hooks), requestCancellation);
+                const docs: CachedQueryDoc[] = result.docs.map(doc => ({ id: doc.id, path: doc.ref.path, data: doc.data() }));
+                return { doc: { docs }, retries, fromCache: result.metadata.fromCache };
+            },
+            convert: cachedResult => (cachedResult.docs as CachedQueryDoc[]).map(doc => ({
+                id: doc.id,
+                path: doc.path,
+                data: convertDoc(db, doc.path, doc.data, options)
+            }))
+        }, { ...options, cacheStore }, cancellation);
+
+        return details.data;
+    });
+}
@@ -0,0 +1,104 @@
+import { DocumentData, Firestore } from "firebase/firestore";
+import { withCacheErrors } from "./cacheStores.js";
+import { Cancellation, withCancellation } from "./cancellation.js";
+import { AbortError, DocumentNotFoundError, TimeoutError } from "./errors.js";
+import { resolveCacheStore } from "./namespacedStore.js";
+import { createDocRead, readCached } from "./readDoc.js";
+import { BatchOptions, CacheEntry, DocResult, DocResults } from "./types.js";
+
+function createResult<T>(path: string, exists: boolean, options: BatchOptions<T> | undefined, convert: () => T | undefined): DocResult<T> {
+    if (!exists && options?.throwIfMissing) {
+        return { error: new DocumentNotFoundError("The document doesn't exist", { path }) };
+    }
+    try {
+        return { data: convert() };
+    } catch (err) {
+        return { error: err };
+    }
+}
+
+/**
+ * Gets many documents at once using the same cache rules as `getDocWrapper`.
+ * 
+ * All the cache entries are read (and written) at once, and only the documents
+ * that aren't in the cache are requested from Firestore, `concurrency` of them at a time,
+ * sharing the pending requests of the other calls. Stores with a `lock` store each entry under its lock instead.
+ * With `staleWhileRevalidate`, `onRevalidate` is called with the path of each revalidated document.
+ * 
+ * The results are keyed by path, a document that couldn't be fetched
+ * gets an `error` instead of failing the whole batch (and so does a missing one if `throwIfMissing` is set).
+ * 
+ * Cancelling the batch through `signal` or `timeoutMs` rejects it as a whole
+ * and none of the documents fetched so far are stored in the cache.
+**/
+export async function getDocsWrapper<T = DocumentData>(db: Firestore, paths: string[], options?: BatchOptions<T>): Promise<DocResults<T>> {
+    return withCancellation(paths.join(", "), options, cancellation => readDocs(db, paths, options, cancellation));
+}
+
+/**
+ * Warms the cache up by fetching the documents that aren't cached (or are stale) in the background,
+ * so they're ready by the time they're read. The cache is enabled unless `cacheOptions` says otherwise.
+ * @returns The number of documents that are now cached, documents that couldn't be fetched are skipped.
+ * @throws {CacheReadError | CacheWriteError} If the cache store fails.
+ * @throws {AbortError | TimeoutError} If `signal` is aborted or the warm-up takes longer than `timeoutMs`.
+**/
+export async function prefetchDocs(db: Firestore, paths: string[], options?: BatchOptions): Promise<number> {
+    // The documents are only cached, so there's nothing to convert or validate
+    const { converter, validate, throwIfMissing, ...prefetchOptions } = options || {};
+    const results = await getDocsWrapper(db, paths, {
+        ...prefetchOptions,
+        cacheOptions: { enabled: true, ...options?.cacheOptions }
+    });
+    return Object.values(results).filter(result => !result.error).length;
+}
+
+async function readDocs<T>(db: Firestore, paths: string[], options?: BatchOptions<T>, cancellation?: Cancellation): Promise<DocResults<T>> {
+    const cacheStore = resolveCacheStore(db, options);
+    const firestoreWrapperCache = withCacheErrors(cacheStore);
+    const concurrency = options?.concurrency || 10;
+    const uniquePaths = Array.from(new Set(paths));
+    const results: DocResults<T> = {};
+
+    const cacheEntries = await firestoreWrapperCache.getMany(uniquePaths);
+    const newEntries: [string, CacheEntry][] = [];
+    // Stores shared between tabs store each entry under its lock instead, so the other tabs can use it right away
+    const storeLater = (path: string) => cacheStore.lock ? undefined : (entry: CacheEntry) => {
+        newEntries.push([path, entry]);
+    }
+    let nextPath = 0;
+
+    // Each document is read like `getDocWrapper` reads it (sharing pending requests, taking the store's lock,
+    // revalidating or falling back to its stale entry), but from the entry read above and without storing it on its own
+    async function readNextDocs() {
+        while (nextPath < uniquePaths.length) {
+            const index = nextPath++;
+            const path = uniquePaths[index];
+            try {
+                const details = await readCached({
+                    ...createDocRead(db, path, cacheStore, options),
+                    cached: { entry: cacheEntries[index] },
+                    store: storeLater(path)
+                }, {
+                    ...options,
+                    cacheStore,
+                    onRevalidate: newData => options?.onRevalidate?.(path, newData)
+                }, cancellation);
+                results[path] = createResult(path, details.exists, options, () => details.data);
+            } catch (err) {
+                if (err instanceof AbortError || err instanceof TimeoutError) {
+                    throw err;
+                }
+                results[path] = { error: err };
+            }
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, uniquePaths.length) }, readNextDocs));
+
+    cancellation?.throwIfCancelled();
+    if (newEntries.length) {
+        await firestoreWrapperCache.setMany(newEntries);
+    }
+
+    return results;
+}
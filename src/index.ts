@@ -1,63 +1,7 @@
-import { doc as docRef, DocumentData, DocumentSnapshot, Firestore, getDoc } from "firebase/firestore";
-import { get, set, del, createStore } from "idb-keyval";
-
-type LooseObject = {
-    [key: string]: any
-}
-
-type CacheOptions = {
-    enabled?: boolean,
-    cacheTime?: {
-        locked?: boolean,
-        time?: number,
-        bypassLockedTime?: boolean
-    }
-    forceRefresh?: boolean
-}
-
-type RetryOptions = {
-    enabled?: boolean,
-    maxRetries?: number,
-    retryDelay?: number,
-    retryOnErrorCode?: string[]
-}
-
-type Options = {
-    cacheOptions?: CacheOptions,
-    retryOptions?: RetryOptions
-}
-
-const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-function requestDoc(db: Firestore, path: string, retryOptions?: RetryOptions): Promise<DocumentSnapshot<DocumentData>> {
-    const retryDelay = retryOptions?.retryDelay || 0;
-    const maxRetries = retryOptions?.maxRetries || 3;
-    let retries = 0;
-    
-    async function request() {
-        try {
-            return await getDoc(docRef(db, path));
-        } catch (err) {
-            if (retryOptions?.enabled) {
-                if (retries < (maxRetries - 1)) {
-                    retries++;
-                    if (!retryOptions?.retryOnErrorCode) {
-                        await timeout(retryDelay);
-                        return await request();
-                        
-                    } else if (retryOptions?.retryOnErrorCode?.includes(err?.code)) {
-                        await timeout(retryDelay);
-                        return await request();
-                    } else {
-                        throw new Error("Firestore threw an error but its code was not in the list of error codes to retry on");
-                    }
-                }
-            }
-            throw err;
-        }
-    }
-
-    return request() as Promise<DocumentSnapshot<DocumentData>>;
-}
+import { DocumentData, Firestore } from "firebase/firestore";
+import { withCancellation } from "./cancellation.js";
+import { readDoc } from "./readDoc.js";
+import { DocDetails, Options } from "./types.js";
 
 /**
  * There are two types of caches, the one-time cache and the locked cache,
@@ -71,149 +15,60 @@ function requestDoc(db: Firestore, path: string, retryOptions?: RetryOptions): P
  * 
  * Or you can simply set a new locked cache time by setting both `cacheOptions.cacheTime.time` and
  * `cacheOptions.cacheTime.locked`, this will override the current locked cache time.
- * @throws Will throw if the Firestore document can't be fetched.
+ * 
+ * The cache is kept in IndexedDB by default, pass a different `cacheStore`
+ * (e.g. `createMemoryStore()`) to use it where IndexedDB isn't available.
+ * 
+ * The cache is scoped to the project and database of `db`, so the emulator and production never share entries,
+ * pass a string as `namespace` (e.g. the signed-in user's id) to scope it further.
+ * `namespace: false` shares the same keys between every project, database and user, only use it with a single project.
+ * 
+ * Pass a `converter` and/or a `validate` function to get typed documents back,
+ * they're applied to both fresh and cached documents.
+ * 
+ * With `cacheOptions.staleWhileRevalidate` enabled, a stale document is returned right away
+ * (as long as it's not older than the cache time plus `maxStale`) while a fresh one is requested
+ * in the background, `onRevalidate` is called with the fresh document once it's in the cache.
+ * 
+ * With `cacheOptions.fallbackToStaleOnError` enabled, a stale document (not older than `maxAge`)
+ * is returned when Firestore can't be reached, `onStaleFallback` is called with the error.
+ * 
+ * Missing documents are cached too (resolving to `undefined`), `cacheOptions.missingDocTime` sets a different
+ * cache time for them and `throwIfMissing` rejects with a `DocumentNotFoundError` instead.
+ * @throws {RetryExhaustedError} If the Firestore document can't be fetched and there are no retries left.
+ * @throws {NonRetryableError} If Firestore threw an error whose code is not retried.
+ * @throws {DocumentNotFoundError} If the document doesn't exist and `throwIfMissing` is set.
+ * @throws {CacheReadError | CacheWriteError} If the cache store fails.
+ * @throws {AbortError | TimeoutError} If `signal` is aborted or the request takes longer than `timeoutMs`,
+ * a cancelled request never writes to the cache.
 **/
-function getDocWrapper(db: Firestore, path: string, options?: Options): Promise<LooseObject | undefined> {
-    return new Promise(async (resolve, reject) => {
-        const firestoreWrapperCache = createStore("firestoreWrapperCache", "docs");
-        
-        await get(path, firestoreWrapperCache)
-        .then(async cacheEntry =>  {
-            const persistentCacheTime = cacheEntry?.persistentCacheTime;
-            if (!options?.cacheOptions?.enabled) {
-                // ******** CACHE DISABLED ********
-                if ((Date.now() - cacheEntry?.fetchedAt) < persistentCacheTime) {
-                    resolve(cacheEntry?.doc);
-                } else {
-                    try {
-                        const doc = await requestDoc(db, path, options?.retryOptions);
-                        resolve(doc.data());
-                    } catch (err) {
-                        reject(err);
-                    }
-                }
-                return;
-            }
-
-            // ******** CACHE ENABLED ********
-            if (!cacheEntry) {
-                // If the cache is empty, request a new document
-                await requestDoc(db, path, options?.retryOptions)
-                .then(doc => {
-                    const newDocEntry: {
-                        fetchedAt: number,
-                        persistentCacheTime?: number
-                        doc: LooseObject
-                    } = {
-                        fetchedAt: Date.now(),
-                        doc: doc.data() as LooseObject
-                    }
-
-                    if (options?.cacheOptions?.cacheTime?.locked) {
-                        newDocEntry.persistentCacheTime = options?.cacheOptions?.cacheTime?.time;
-                    }
-
-                    set(path, newDocEntry, firestoreWrapperCache);
-                    resolve(doc.data());
-                })
-                .catch(err => {
-                    reject(err);
-                });
-                return;
-            }
-
-            // If the user has choosen to force a refresh, clear the cache and request a new document
-            // regardless of the cache time (locked or one-time) and whether bypassLocked time is set
-            if (options?.cacheOptions?.forceRefresh) {
-                await del(path, firestoreWrapperCache)
-                .then(async () => {
-                    await requestDoc(db, path, options?.retryOptions)
-                    .then(newDoc => {
-                        const newDocEntry: {
-                            fetchedAt: number,
-                            persistentCacheTime?: number
-                            doc: LooseObject
-                        } = {
-                            fetchedAt: Date.now(),
-                            doc: newDoc.data() as LooseObject
-                        }
-    
-                        if (options?.cacheOptions?.cacheTime?.locked) {
-                            newDocEntry.persistentCacheTime = options?.cacheOptions?.cacheTime?.time;
-                        }
-    
-                        set(path, newDocEntry, firestoreWrapperCache);
-                        resolve(newDoc.data());
-                    });
-                })
-                .catch(err => {
-                    reject(err);
-                });
-                return;
-            }
-
-            // If a locked cache time was set previously
-            // and the user hasn't choosen to bypass it
-            if (persistentCacheTime && !options?.cacheOptions?.cacheTime?.bypassLockedTime) {
-
-                // If the user is overriding the previously
-                // locked cache time by setting a new one
-                if (options?.cacheOptions?.cacheTime?.locked) {
-
-                    if ((Date.now() - cacheEntry?.fetchedAt) < options?.cacheOptions?.cacheTime?.time) {
-
-                        resolve(cacheEntry?.doc);
-                        return;
-                    }
-                
-                // If the user is not overriding the previously locked cache time,
-                // check against the previously locked cache time
-                } else if ((Date.now() - cacheEntry?.fetchedAt) < persistentCacheTime) {
-
-                    resolve(cacheEntry?.doc);
-                    return;
-                }
-            
-            // If a locked cache time was not set previously, or the user has choosen to override it,
-            // check against the one-time cache time
-            } else {
-
-                if ((Date.now() - cacheEntry?.fetchedAt) < options?.cacheOptions?.cacheTime?.time) {
-                    resolve(cacheEntry?.doc);
-                    return;
-                }
-            }
-            // If all the above conditions are false, it means either the cache is stale or it doesn't exist
-            // So now we can request a new document from Firestore and store it in the cache
-            await del(path, firestoreWrapperCache)
-            .then(async () => {
-                await requestDoc(db, path, options?.retryOptions)
-                .then(newDoc => {
-                    const newDocEntry: {
-                        fetchedAt: number,
-                        persistentCacheTime?: number
-                        doc: LooseObject
-                    } = {
-                        fetchedAt: Date.now(),
-                        doc: newDoc.data() as LooseObject
-                    }
-                    // If the user has choosen to lock the cache time, store it
-                    if (options?.cacheOptions?.cacheTime?.locked) {
-                        newDocEntry.persistentCacheTime = options?.cacheOptions?.cacheTime?.time;
-                    }
+async function getDocWrapper<T = DocumentData>(db: Firestore, path: string, options?: Options<T>): Promise<T | undefined> {
+    return (await getDocWrapperDetailed(db, path, options)).data;
+}
 
-                    set(path, newDocEntry, firestoreWrapperCache);
-                    resolve(newDoc.data());
-                });
-            })
-            .catch(err => {
-                reject(err);
-            });
-        })
-        .catch(err => {
-            reject(err);
-        });
-    });
+/**
+ * Works exactly like `getDocWrapper` but also tells where the document came from (`source`),
+ * whether it's `stale`, when it was fetched (`fetchedAt` and `ageMs`), how many `retries` it took
+ * and the `lockedCacheTime` it was stored with.
+**/
+export async function getDocWrapperDetailed<T = DocumentData>(db: Firestore, path: string, options?: Options<T>): Promise<DocDetails<T>> {
+    return withCancellation(path, options, cancellation => readDoc(db, path, options, cancellation));
 }
 
+export { createIndexedDBStore, createMemoryStore, createWebStorageStore } from "./cacheStores.js";
+export { createDocWrapper } from "./createDocWrapper.js";
+export { createCrossTabStore } from "./crossTabStore.js";
+export { createEvictingStore } from "./evictingStore.js";
+export { createNamespacedStore, getCacheNamespace } from "./namespacedStore.js";
+export { createTieredStore } from "./tieredStore.js";
+export { clearCache, clearNamespace, invalidateDoc, invalidatePrefix, peekCache, setLockedCacheTime, unlockCacheTime } from "./cacheManagement.js";
+export { getDocsWrapper, prefetchDocs } from "./getDocsWrapper.js";
+export { CACHE_SNAPSHOT_VERSION, exportCache, importCache } from "./cacheSnapshot.js";
+export { getDocsQueryWrapper, getQueryCacheKey } from "./getDocsQueryWrapper.js";
+export { subscribeDocWrapper } from "./subscribeDocWrapper.js";
+export { deleteDocWrapper, setDocWrapper, updateDocWrapper } from "./writeDoc.js";
+export { getStats, resetStats } from "./observability.js";
+export { DEFAULT_RETRY_ERROR_CODES } from "./requestDoc.js";
+export { AbortError, CacheReadError, CacheWriteError, DocumentNotFoundError, DocWrapperError, NonRetryableError, RetryExhaustedError, TimeoutError } from "./errors.js";
+export type { BatchOptions, CacheChange, CacheEntry, CacheHitEvent, CacheLimits, CacheManagementOptions, CacheMissEvent, CacheOptions, CacheReason, CacheSnapshot, CacheStore, CrossTabCacheStore, DocDetails, DocErrorEvent, DocResult, DocResults, DocWrapperClient, DocWrapperConfig, EvictingCacheStore, EvictionStats, FetchEvent, Hooks, Options, QueryDoc, QueryOptions, QuerySpec, RetryEvent, RetryOptions, SetOptions, Stats, WriteOptions } from "./types.js";
 export default getDocWrapper;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Firestore } from "firebase/firestore";
+import { getDefaultStore, getKeys, getManyEntries, setManyEntries } from "./cacheStores.js";
+import { DocWrapperError } from "./errors.js";
+import { CacheManagementOptions, CacheStore, Options } from "./types.js";
+
+type FirestoreJSON = {
+    databaseId?: {
+        database?: unknown
+    }
+}
+
+const namespacedStores = new WeakMap<CacheStore, Map<string, CacheStore>>();
+
+/**
+ * Keeps the entries of a namespace apart from the rest of the store by prefixing their keys,
+ * listing and clearing the namespaced store only sees (and removes) the entries in the namespace.
+**/
+export function createNamespacedStore(cacheStore: CacheStore, namespace: string): CacheStore {
+    const prefix = `${namespace}:`;
+    const toKey = (key: string) => prefix + key;
+
+    return {
+        get: key => cacheStore.get(toKey(key)),
+        set: (key, entry) => cacheStore.set(toKey(key), entry),
+        del: key => cacheStore.del(toKey(key)),
+        getMany: keys => getManyEntries(cacheStore, keys.map(toKey)),
+        setMany: entries => setManyEntries(cacheStore, entries.map(([key, entry]) => [toKey(key), entry])),
+        keys: cacheStore.keys && (async () => {
+            const keys = await cacheStore.keys();
+            return keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+        }),
+        // Clearing the whole store would clear the other namespaces too, so only the keys in this one are removed
+        clear: async () => {
+            const keys = await getKeys(cacheStore);
+            await Promise.all(keys.filter(key => key.startsWith(prefix)).map(key => cacheStore.del(key)));
+        },
+        lock: cacheStore.lock && ((key, task) => cacheStore.lock(toKey(key), task)),
+        onChange: cacheStore.onChange && (listener => cacheStore.onChange(change => {
+            if (change.type === "clear") {
+                listener(change);
+            } else if (change.key.startsWith(prefix)) {
+                listener({ ...change, key: change.key.slice(prefix.length) });
+            }
+        }))
+    }
+}
+
+/**
+ * Returns the name of the database of `db` from its public JSON representation,
+ * throws if its shape changed instead of silently sharing a namespace between databases.
+**/
+function getDatabaseName(db: Firestore): string {
+    const { databaseId } = db.toJSON() as FirestoreJSON;
+    if (typeof databaseId?.database !== "string") {
+        throw new DocWrapperError("The database of the Firestore instance couldn't be determined", { path: "*" });
+    }
+    return databaseId.database;
+}
+
+/**
+ * Returns the namespace of the Firebase project and database of `db`,
+ * followed by `namespace` if it's a string (e.g. the signed-in user's id).
+**/
+export function getCacheNamespace(db: Firestore | undefined, namespace: boolean | string = true): string {
+    const parts: string[] = [];
+    if (db?.app) {
+        parts.push(db.app.options.projectId, getDatabaseName(db));
+    }
+    if (typeof namespace === "string" && namespace) {
+        parts.push(namespace);
+    }
+    return parts.join("/");
+}
+
+/**
+ * Returns the same namespaced store every time for the same store and namespace,
+ * so calls in the same namespace keep sharing their pending requests and listeners.
+**/
+export function getNamespacedStore(cacheStore: CacheStore, namespace: string): CacheStore {
+    if (!namespace) {
+        return cacheStore;
+    }
+    let stores = namespacedStores.get(cacheStore);
+    if (!stores) {
+        stores = new Map();
+        namespacedStores.set(cacheStore, stores);
+    }
+    if (!stores.has(namespace)) {
+        stores.set(namespace, createNamespacedStore(cacheStore, namespace));
+    }
+    return stores.get(namespace);
+}
+
+/**
+ * Returns the store to use for the options, scoped to the project and database of `db` (and `namespace` if it's a string)
+ * unless `namespace` is `false`, which shares the keys of every project and database.
+**/
+export function resolveCacheStore(db: Firestore | undefined, options?: Pick<Options<any>, "cacheStore" | "namespace">): CacheStore {
+    const cacheStore = options?.cacheStore || getDefaultStore();
+    const namespace = options?.namespace ?? true;
+    return namespace === false ? cacheStore : getNamespacedStore(cacheStore, getCacheNamespace(db, namespace));
+}
+
+/**
+ * Resolves the store for the functions that manage documents read elsewhere, which can only find
+ * the keys scoped to a project and database if they're given its `db`, so it throws without one unless `namespace` is `false`.
+**/
+export function resolveManagedStore(options?: CacheManagementOptions): CacheStore {
+    if (!options?.db && options?.namespace !== false) {
+        throw new DocWrapperError("The cache is scoped to the project and database, pass the db the documents were read with (or namespace: false for unscoped keys)", { path: "*" });
+    }
+    return resolveCacheStore(options.db, options);
+}
@@ -0,0 +1,99 @@
+import { Cancellation } from "./cancellation.js";
+import { resolveManagedStore } from "./namespacedStore.js";
+import { CacheManagementOptions, CacheReason, CacheStore, Hooks, LooseObject, RetryOptions, Stats } from "./types.js";
+
+const storeStats = new WeakMap<CacheStore, Stats>();
+
+function getStoreStats(cacheStore: CacheStore): Stats {
+    let stats = storeStats.get(cacheStore);
+    if (!stats) {
+        stats = { hits: 0, staleHits: 0, misses: 0, fetches: 0, retries: 0, errors: 0 };
+        storeStats.set(cacheStore, stats);
+    }
+    return stats;
+}
+
+// A broken hook shouldn't break the read it's observing
+function callHook<E>(hook: ((event: E) => void) | undefined, event: E) {
+    try {
+        hook?.(event);
+    } catch {}
+}
+
+export type Observer = {
+    cacheHit: (reason: CacheReason, stale: boolean, fetchedAt: number) => void,
+    cacheMiss: (reason: CacheReason) => void,
+    observeFetch: <R extends { doc: LooseObject | undefined, retries: number }>(fetch: (cancellation?: Cancellation) => Promise<R>) => (cancellation?: Cancellation) => Promise<R>,
+    error: (err: any) => void
+}
+
+/**
+ * Counts what happens while reading the document at `path` and tells the hooks about it.
+**/
+export function createObserver(cacheStore: CacheStore, path: string, hooks?: Hooks): Observer {
+    const stats = getStoreStats(cacheStore);
+    const startedAt = Date.now();
+
+    return {
+        cacheHit: (reason, stale, fetchedAt) => {
+            stats.hits++;
+            if (stale) {
+                stats.staleHits++;
+            }
+            callHook(hooks?.onCacheHit, { path, reason, stale, ageMs: Date.now() - fetchedAt, durationMs: Date.now() - startedAt });
+        },
+        cacheMiss: reason => {
+            stats.misses++;
+            callHook(hooks?.onCacheMiss, { path, reason });
+        },
+        observeFetch: fetch => async cancellation => {
+            const fetchStartedAt = Date.now();
+            const result = await fetch(cancellation);
+            stats.fetches++;
+            callHook(hooks?.onFetch, { path, exists: result.doc !== undefined, retries: result.retries, durationMs: Date.now() - fetchStartedAt });
+            return result;
+        },
+        error: err => {
+            stats.errors++;
+            callHook(hooks?.onError, { path, error: err, durationMs: Date.now() - startedAt });
+        }
+    }
+}
+
+/**
+ * Returns the retry options with an `onRetry` that also counts the retry and tells the hooks about it.
+**/
+export function observeRetries(cacheStore: CacheStore, path: string, retryOptions?: RetryOptions, hooks?: Hooks): RetryOptions | undefined {
+    if (!retryOptions) {
+        return retryOptions;
+    }
+    const stats = getStoreStats(cacheStore);
+
+    return {
+        ...retryOptions,
+        onRetry: (attempt, error, delay) => {
+            stats.retries++;
+            callHook(hooks?.onRetry, { path, attempt, error, delay });
+            retryOptions.onRetry?.(attempt, error, delay);
+        }
+    }
+}
+
+/**
+ * Returns how many cache hits (stale ones included), misses, requests to Firestore,
+ * retries and errors there were since the page was loaded (or `resetStats` was called).
+ * 
+ * Counters are kept per store, pass the same `cacheStore`, `db` and `namespace` the documents were read with.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export function getStats(options?: CacheManagementOptions): Stats {
+    return { ...getStoreStats(resolveManagedStore(options)) };
+}
+
+/**
+ * Sets every counter back to 0.
+ * @throws {DocWrapperError} If there's no `db` and `namespace` isn't `false`.
+**/
+export function resetStats(options?: CacheManagementOptions): void {
+    storeStats.delete(resolveManagedStore(options));
+}
@@ -0,0 +1,24 @@
+import { CacheStore } from "./types.js";
+
+const pendingRequests = new WeakMap<CacheStore, Map<string, Promise<any>>>();
+
+/**
+ * Shares a single pending request between concurrent calls with the same key on the same store,
+ * the request is forgotten as soon as it settles so later calls start a new one.
+**/
+export function dedupeRequest<T>(cacheStore: CacheStore, key: string, request: () => Promise<T>): Promise<T> {
+    let storeRequests = pendingRequests.get(cacheStore);
+    if (!storeRequests) {
+        storeRequests = new Map();
+        pendingRequests.set(cacheStore, storeRequests);
+    }
+
+    const pendingRequest = storeRequests.get(key);
+    if (pendingRequest) {
+        return pendingRequest;
+    }
+
+    const newRequest = request().finally(() => storeRequests.delete(key));
+    storeRequests.set(key, newRequest);
+    return newRequest;
+}
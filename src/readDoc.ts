@@ -0,0 +1,214 @@
+import { Firestore } from "firebase/firestore";
+import { getDefaultStore, withCacheErrors } from "./cacheStores.js";
+import { cacheEntryExists, canFallbackToStale, createCacheEntry, getCacheStatus, isCacheEntryFresh, isCacheEntryRevalidatable } from "./cacheTime.js";
+import { Cancellation } from "./cancellation.js";
+import { convertDoc } from "./converters.js";
+import { DocumentNotFoundError } from "./errors.js";
+import { resolveCacheStore } from "./namespacedStore.js";
+import { createObserver, Observer, observeRetries } from "./observability.js";
+import { dedupeRequest } from "./pendingRequests.js";
+import { isUnreachableError, requestDoc } from "./requestDoc.js";
+import { CacheEntry, CacheStore, DocDetails, LooseObject, Options } from "./types.js";
+
+export type FetchResult = {
+    doc: LooseObject | undefined,
+    retries: number,
+    // Set when Firestore served the result from its own offline cache (`snapshot.metadata.fromCache`)
+    fromCache?: boolean
+}
+
+/**
+ * Describes something that can be cached, `key` is the key it's cached under,
+ * `fetch` requests it from Firestore and `convert` turns what's cached into what's returned.
+**/
+export type CachedRead<R> = {
+    key: string,
+    fetch: (cancellation?: Cancellation) => Promise<FetchResult>,
+    convert: (doc: LooseObject | undefined) => R | undefined,
+    // Set when the entry was already read (e.g. by `getDocsWrapper`), so it isn't read again
+    cached?: {
+        entry: CacheEntry | undefined
+    },
+    // Replaces storing the fetched entry on its own (e.g. to store many at once), revalidated entries are always stored on their own
+    store?: (entry: CacheEntry) => void
+}
+
+export type CachedReadOptions<R> = Pick<Options, "cacheStore" | "cacheOptions" | "onRevalidateError" | "onStaleFallback" | "hooks"> & {
+    onRevalidate?: (newData: R | undefined) => void
+}
+
+type FetchedEntry = {
+    entry: CacheEntry,
+    retries: number,
+    // Set when another tab stored the entry while this one was waiting for the lock
+    fromOtherTab?: boolean,
+    // Set when Firestore served the entry from its own offline cache, which might be outdated so it isn't stored
+    fromCache?: boolean
+}
+
+function fromCache<R>(read: CachedRead<R>, cacheEntry: CacheEntry, stale: boolean): DocDetails<R> {
+    return {
+        data: read.convert(cacheEntry.doc),
+        exists: cacheEntryExists(cacheEntry),
+        source: "cache",
+        stale,
+        fetchedAt: cacheEntry.fetchedAt,
+        ageMs: Date.now() - cacheEntry.fetchedAt,
+        retries: 0,
+        lockedCacheTime: cacheEntry.persistentCacheTime
+    }
+}
+
+function fromServer<R>(read: CachedRead<R>, { entry, retries, fromCache }: FetchedEntry): DocDetails<R> {
+    return {
+        data: read.convert(entry.doc),
+        exists: cacheEntryExists(entry),
+        source: fromCache ? "cache" : "server",
+        stale: false,
+        fetchedAt: entry.fetchedAt,
+        ageMs: Date.now() - entry.fetchedAt,
+        retries,
+        lockedCacheTime: entry.persistentCacheTime
+    }
+}
+
+/**
+ * Applies the cache rules to anything that can be cached, this is the actual work
+ * behind `getDocWrapper`, `getDocWrapperDetailed` and `getDocsQueryWrapper`.
+**/
+export async function readCached<R>(read: CachedRead<R>, options?: CachedReadOptions<R>, cancellation?: Cancellation): Promise<DocDetails<R>> {
+    const cacheStore = options?.cacheStore || getDefaultStore();
+    const observer = createObserver(cacheStore, read.key, options?.hooks);
+
+    try {
+        return await readCachedEntry({ ...read, fetch: observer.observeFetch(read.fetch) }, cacheStore, observer, options, cancellation);
+    } catch (err) {
+        observer.error(err);
+        throw err;
+    }
+}
+
+async function readCachedEntry<R>(read: CachedRead<R>, cacheStore: CacheStore, observer: Observer, options?: CachedReadOptions<R>, cancellation?: Cancellation): Promise<DocDetails<R>> {
+    const { key } = read;
+    const firestoreWrapperCache = withCacheErrors(cacheStore);
+    const cacheEntry = read.cached ? read.cached.entry : await firestoreWrapperCache.get(key);
+    const cacheStatus = getCacheStatus(cacheEntry, options?.cacheOptions);
+
+    const hit = (entry: CacheEntry, stale: boolean) => {
+        observer.cacheHit(getCacheStatus(entry, options?.cacheOptions).reason, stale, entry.fetchedAt);
+        return fromCache(read, entry, stale);
+    }
+    // The miss is counted before fetching, so the requests that fail are counted too
+    const fetched = (fetchedEntry: FetchedEntry) => {
+        // Another tab refreshed the entry while this one was waiting for it
+        if (fetchedEntry.fromOtherTab) {
+            return fromCache(read, fetchedEntry.entry, false);
+        }
+        return fromServer(read, fetchedEntry);
+    }
+
+    if (cacheStatus.fresh) {
+        return hit(cacheEntry, false);
+    }
+
+    // Cancellable calls get their own request, so cancelling one doesn't cancel the others
+    if (!options?.cacheOptions?.enabled) {
+        const fetchDoc = async (): Promise<FetchedEntry> => {
+            const result = await read.fetch(cancellation);
+            return { entry: createCacheEntry(result.doc), retries: result.retries, fromCache: result.fromCache };
+        }
+        observer.cacheMiss(cacheStatus.reason);
+        const fetchedEntry = await (cancellation ? fetchDoc() : dedupeRequest(cacheStore, `read:${key}`, fetchDoc));
+        return fetched(fetchedEntry);
+    }
+
+    // If we got here, it means either the cache is stale or it doesn't exist
+    // So now we can request a new document from Firestore and store it in the cache,
+    // concurrent calls that would store the same entry share the request and the write
+    const requestAndStoreDoc = async (requestCancellation?: Cancellation, store = read.store): Promise<FetchedEntry> => {
+        const result = await read.fetch(requestCancellation);
+        // Never store a late result if the request was cancelled
+        requestCancellation?.throwIfCancelled();
+        const entry = createCacheEntry(result.doc, options.cacheOptions);
+        const retries = result.retries;
+        // Firestore's offline cache might be outdated, so what it serves is returned but the cached entry is kept
+        if (result.fromCache) {
+            return { entry, retries, fromCache: true };
+        }
+        if (store) {
+            store(entry);
+        } else {
+            await firestoreWrapperCache.set(key, entry);
+        }
+        return { entry, retries };
+    }
+    // Stores shared between tabs only let one of them refresh the entry at a time,
+    // the others use the entry it stored instead of requesting the document again
+    const lockAndRequestDoc = (requestCancellation?: Cancellation, store = read.store): Promise<FetchedEntry> => {
+        if (!cacheStore.lock) {
+            return requestAndStoreDoc(requestCancellation, store);
+        }
+        return cacheStore.lock(key, async () => {
+            const lockedEntry = await firestoreWrapperCache.get(key);
+            if (lockedEntry?.fetchedAt !== cacheEntry?.fetchedAt && isCacheEntryFresh(lockedEntry, options.cacheOptions)) {
+                return { entry: lockedEntry, retries: 0, fromOtherTab: true };
+            }
+            return requestAndStoreDoc(requestCancellation, store);
+        });
+    }
+    const cacheTime = options.cacheOptions.cacheTime;
+    const lockedCacheTime = cacheTime?.locked ? cacheTime.time : "";
+    const sharedRequestAndStoreDoc = (store = read.store) => dedupeRequest(cacheStore, `write:${lockedCacheTime}:${key}`, () => lockAndRequestDoc(undefined, store));
+
+    // If the stale entry can still be served, return it right away
+    // and refresh the cache in the background
+    if (isCacheEntryRevalidatable(cacheEntry, options.cacheOptions)) {
+        // Nothing would store the entry once it's fetched in the background, so it's stored on its own
+        sharedRequestAndStoreDoc(null)
+        .then(({ entry }) => options.onRevalidate?.(read.convert(entry.doc)))
+        .catch(err => {
+            observer.error(err);
+            options.onRevalidateError?.(err);
+        });
+
+        return hit(cacheEntry, true);
+    }
+
+    // The stale entry is kept until the new document is stored,
+    // so it can still be returned if Firestore can't be reached
+    observer.cacheMiss(cacheStatus.reason);
+    try {
+        const fetchedEntry = await (cancellation ? lockAndRequestDoc(cancellation) : sharedRequestAndStoreDoc());
+        return fetched(fetchedEntry);
+    } catch (err) {
+        if (isUnreachableError(err) && canFallbackToStale(cacheEntry, options.cacheOptions)) {
+            options.onStaleFallback?.(err);
+            return fromCache(read, cacheEntry, true);
+        }
+        throw err;
+    }
+}
+
+/**
+ * Describes how the document at `path` is read, for `readDoc` and `getDocsWrapper`.
+**/
+export function createDocRead<T>(db: Firestore, path: string, cacheStore: CacheStore, options?: Pick<Options<T>, "retryOptions" | "hooks" | "converter" | "validate">): CachedRead<T> {
+    return {
+        key: path,
+        fetch: async requestCancellation => {
+            const { snapshot, retries } = await requestDoc(db, path, observeRetries(cacheStore, path, options?.retryOptions, options?.hooks), requestCancellation);
+            return { doc: snapshot.data(), retries, fromCache: snapshot.metadata.fromCache };
+        },
+        convert: doc => convertDoc(db, path, doc, options)
+    }
+}
+
+export async function readDoc<T>(db: Firestore, path: string, options?: Options<T>, cancellation?: Cancellation): Promise<DocDetails<T>> {
+    const cacheStore = resolveCacheStore(db, options);
+    const details = await readCached(createDocRead(db, path, cacheStore, options), { ...options, cacheStore }, cancellation);
+
+    if (!details.exists && options?.throwIfMissing) {
+        throw new DocumentNotFoundError("The document doesn't exist", { path });
+    }
+    return details;
+}
@@ -0,0 +1,108 @@
+import { doc as docRef, DocumentData, DocumentSnapshot, Firestore, getDoc } from "firebase/firestore";
+import { Cancellation, raceCancellation } from "./cancellation.js";
+import { AbortError, NonRetryableError, RetryExhaustedError, TimeoutError } from "./errors.js";
+import { RetryOptions } from "./types.js";
+
+/**
+ * The Firestore error codes that are retried when `retryOnErrorCode` is not set,
+ * they're the ones that usually go away on their own.
+**/
+export const DEFAULT_RETRY_ERROR_CODES = ["unavailable", "deadline-exceeded", "resource-exhausted", "aborted"];
+
+// Only these codes mean Firestore couldn't be reached, e.g. `resource-exhausted` and `aborted` are retried but come from a reachable server
+const UNREACHABLE_ERROR_CODES = ["unavailable", "deadline-exceeded"];
+
+// Firestore error codes can come as "deadline-exceeded" or "DEADLINE_EXCEEDED" depending on the SDK
+const normalizeErrorCode = (code: string) => code?.toLowerCase().replace(/_/g, "-");
+
+/**
+ * Tells whether the request failed because Firestore couldn't be reached (`unavailable` or `deadline-exceeded`),
+ * as opposed to e.g. `permission-denied` or `resource-exhausted`, only then can a stale document be returned instead.
+**/
+export function isUnreachableError(err: any): boolean {
+    return (err instanceof RetryExhaustedError || err instanceof NonRetryableError) && UNREACHABLE_ERROR_CODES.includes(normalizeErrorCode(err.cause?.code));
+}
+
+const timeout = (ms: number, cancellation?: Cancellation) => new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    cancellation?.cancelled.catch(err => {
+        clearTimeout(timer);
+        reject(err);
+    });
+});
+
+function getRetryDelay(attempt: number, retryOptions: RetryOptions): number {
+    const retryDelay = retryOptions.retryDelay || 0;
+    const backoff = retryOptions.backoff;
+
+    let delay = retryDelay;
+    if (backoff?.strategy === "linear") {
+        delay = retryDelay * attempt;
+    } else if (backoff?.strategy === "exponential") {
+        delay = retryDelay * 2 ** (attempt - 1);
+    }
+    delay = Math.min(delay, backoff?.maxDelay ?? Number.POSITIVE_INFINITY);
+
+    if (backoff?.jitter === "full") {
+        return Math.random() * delay;
+    }
+    if (backoff?.jitter === "equal") {
+        return delay / 2 + Math.random() * delay / 2;
+    }
+    return delay;
+}
+
+export type RequestResult = {
+    snapshot: DocumentSnapshot<DocumentData>,
+    retries: number
+}
+
+/**
+ * Runs the request, retrying it according to the retry options,
+ * `path` is only used to describe the request in errors.
+ * @throws {RetryExhaustedError} If there are no retries left.
+ * @throws {NonRetryableError} If Firestore threw an error whose code is not retried.
+ * @throws {AbortError | TimeoutError} If the request was cancelled, pending retries are cancelled too.
+**/
+export async function requestWithRetries<R>(path: string, request: () => Promise<R>, retryOptions?: RetryOptions, cancellation?: Cancellation): Promise<{ result: R, retries: number }> {
+    const maxRetries = retryOptions?.maxRetries ?? 3;
+    const retryOnErrorCode = (retryOptions?.retryOnErrorCode || DEFAULT_RETRY_ERROR_CODES).map(normalizeErrorCode);
+    const startedAt = Date.now();
+    let attempt = 0;
+
+    while (true) {
+        cancellation?.throwIfCancelled();
+        try {
+            const result = await raceCancellation(request(), cancellation);
+            return { result, retries: attempt };
+        } catch (err) {
+            if (err instanceof AbortError || err instanceof TimeoutError) {
+                throw err;
+            }
+
+            attempt++;
+            const errorDetails = {
+                path,
+                cause: err,
+                attempts: attempt,
+                elapsedTime: Date.now() - startedAt
+            }
+
+            if (!retryOptions?.enabled || attempt >= maxRetries) {
+                throw new RetryExhaustedError(`Firestore threw an error and there are no retries left after ${attempt} attempt(s)`, errorDetails);
+            }
+            if (!retryOnErrorCode.includes(normalizeErrorCode(err?.code))) {
+                throw new NonRetryableError("Firestore threw an error but its code was not in the list of error codes to retry on", errorDetails);
+            }
+
+            const delay = getRetryDelay(attempt, retryOptions);
+            retryOptions.onRetry?.(attempt, err, delay);
+            await timeout(delay, cancellation);
+        }
+    }
+}
+
+export async function requestDoc(db: Firestore, path: string, retryOptions?: RetryOptions, cancellation?: Cancellation): Promise<RequestResult> {
+    const { result, retries } = await requestWithRetries(path, () => getDoc(docRef(db, path)), retryOptions, cancellation);
+    return { snapshot: result, retries };
+}
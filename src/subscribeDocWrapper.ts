@@ -0,0 +1,150 @@
+import { doc as docRef, DocumentData, Firestore, onSnapshot } from "firebase/firestore";
+import { withCacheErrors } from "./cacheStores.js";
+import { createCacheEntry, isCacheEntryFresh } from "./cacheTime.js";
+import { convertDoc } from "./converters.js";
+import { resolveCacheStore } from "./namespacedStore.js";
+import { CacheStore, Options } from "./types.js";
+
+type Subscriber = {
+    next: (data: DocumentData | undefined) => void,
+    error: (err: any) => void
+}
+
+type SharedListener = {
+    subscribers: Set<Subscriber>,
+    latestSnapshot?: {
+        data: DocumentData | undefined
+    },
+    unsubscribe: () => void
+}
+
+const sharedListeners = new WeakMap<CacheStore, Map<string, SharedListener>>();
+
+function getStoreListeners(cacheStore: CacheStore): Map<string, SharedListener> {
+    let storeListeners = sharedListeners.get(cacheStore);
+    if (!storeListeners) {
+        storeListeners = new Map();
+        sharedListeners.set(cacheStore, storeListeners);
+    }
+    return storeListeners;
+}
+
+/**
+ * Every snapshot is stored in the cache with the options of the subscriber that attached the listener,
+ * except for the ones Firestore served from its own offline cache, which might be outdated.
+**/
+function createSharedListener(db: Firestore, path: string, cacheStore: CacheStore, options?: Options<any>): SharedListener {
+    const firestoreWrapperCache = withCacheErrors(cacheStore);
+    const storeListeners = getStoreListeners(cacheStore);
+
+    const listener: SharedListener = {
+        subscribers: new Set(),
+        unsubscribe: () => {}
+    }
+    const forEachSubscriber = (notify: (subscriber: Subscriber) => void) => Array.from(listener.subscribers).forEach(notify);
+
+    listener.unsubscribe = onSnapshot(docRef(db, path), snapshot => {
+        const data = snapshot.data();
+        listener.latestSnapshot = { data };
+
+        if (options?.cacheOptions?.enabled && !snapshot.metadata.fromCache) {
+            firestoreWrapperCache.set(path, createCacheEntry(data, options.cacheOptions))
+            .catch(err => forEachSubscriber(subscriber => subscriber.error(err)));
+        }
+        forEachSubscriber(subscriber => subscriber.next(data));
+    }, err => {
+        // Firestore removes the listener after an error, so the next subscriber gets a new one
+        if (storeListeners.get(path) === listener) {
+            storeListeners.delete(path);
+        }
+        forEachSubscriber(subscriber => subscriber.error(err));
+    });
+
+    return listener;
+}
+
+/**
+ * Keeps the document up to date by listening to it with `onSnapshot`.
+ * 
+ * The cached document is emitted first (if it's fresh according to the usual cache time rules),
+ * then every snapshot is emitted and stored in the cache (if the cache is enabled),
+ * snapshots Firestore served from its own offline cache are emitted but not stored.
+ * Subscribers of the same path share a single listener, which is removed once all of them unsubscribe.
+ * With a store that tells about changes (e.g. `createCrossTabStore`), documents stored by other tabs are emitted as well.
+ * @returns A function to unsubscribe.
+**/
+export function subscribeDocWrapper<T = DocumentData>(
+    db: Firestore,
+    path: string,
+    options: Options<T> | undefined,
+    callback: (data: T | undefined) => void,
+    onError?: (err: any) => void
+): () => void {
+    const cacheStore = resolveCacheStore(db, options);
+    const storeListeners = getStoreListeners(cacheStore);
+    let unsubscribed = false;
+    let receivedSnapshot = false;
+    let lastEmitted: string | undefined;
+
+    const emit = (data: DocumentData | undefined) => {
+        lastEmitted = JSON.stringify(data);
+        try {
+            callback(convertDoc(db, path, data, options));
+        } catch (err) {
+            onError?.(err);
+        }
+    }
+    const subscriber: Subscriber = {
+        next: data => {
+            receivedSnapshot = true;
+            emit(data);
+        },
+        error: err => onError?.(err)
+    }
+
+    // A snapshot might arrive before the cache is read, in that case the cached document is outdated
+    withCacheErrors(cacheStore).get(path)
+    .then(cacheEntry => {
+        if (!unsubscribed && !receivedSnapshot && isCacheEntryFresh(cacheEntry, options?.cacheOptions)) {
+            emit(cacheEntry.doc);
+        }
+    })
+    .catch(err => {
+        if (!unsubscribed) {
+            onError?.(err);
+        }
+    });
+
+    // Documents stored by other tabs are emitted too, unless they're what was emitted last
+    const stopWatchingChanges = cacheStore.onChange?.(change => {
+        if (!unsubscribed && change.type === "set" && change.key === path && JSON.stringify(change.entry.doc) !== lastEmitted) {
+            emit(change.entry.doc);
+        }
+    });
+
+    let listener = storeListeners.get(path);
+    if (!listener) {
+        listener = createSharedListener(db, path, cacheStore, options);
+        storeListeners.set(path, listener);
+    }
+    listener.subscribers.add(subscriber);
+    if (listener.latestSnapshot) {
+        subscriber.next(listener.latestSnapshot.data);
+    }
+
+    return () => {
+        if (unsubscribed) {
+            return;
+        }
+        unsubscribed = true;
+        stopWatchingChanges?.();
+        listener.subscribers.delete(subscriber);
+
+        if (!listener.subscribers.size) {
+            listener.unsubscribe();
+            if (storeListeners.get(path) === listener) {
+                storeListeners.delete(path);
+            }
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import { clearEntries, getManyEntries, setManyEntries } from "./cacheStores.js";
+import { CacheEntry, CacheStore } from "./types.js";
+
+type TieredStoreOptions = {
+    maxEntries?: number
+}
+
+/**
+ * Keeps the most recently used entries in memory in front of a slower store (e.g. IndexedDB),
+ * so documents read again are returned without touching it. Writes go to both,
+ * and changes made by other tabs (see `createCrossTabStore`) are applied to the memory too.
+ * 
+ * Only changes the wrapped store reports through `onChange` reach the memory, so wrap a store
+ * shared with other tabs in `createCrossTabStore` first, or the memory can serve entries they've replaced.
+**/
+export function createTieredStore(cacheStore: CacheStore, options?: TieredStoreOptions): CacheStore {
+    const maxEntries = options?.maxEntries ?? 500;
+    // A Map iterates in insertion order, so re-inserting an entry on every access makes the first one the least recently used
+    const memory = new Map<string, CacheEntry>();
+    // Entries are copied in and out of memory like IndexedDB does, so mutating a document never changes the cache
+    const copy = (entry: CacheEntry | undefined) => entry && structuredClone(entry);
+
+    const remember = (key: string, entry: CacheEntry | undefined) => {
+        memory.delete(key);
+        if (!entry) {
+            return;
+        }
+        memory.set(key, copy(entry));
+        if (memory.size > maxEntries) {
+            memory.delete(memory.keys().next().value);
+        }
+    }
+
+    cacheStore.onChange?.(change => {
+        if (change.type === "clear") {
+            memory.clear();
+        } else if (change.type === "set") {
+            remember(change.key, change.entry);
+        } else {
+            memory.delete(change.key);
+        }
+    });
+
+    return {
+        get: async key => {
+            if (memory.has(key)) {
+                const entry = memory.get(key);
+                memory.delete(key);
+                memory.set(key, entry);
+                return copy(entry);
+            }
+            const entry = await cacheStore.get(key);
+            remember(key, entry);
+            return entry;
+        },
+        set: async (key, entry) => {
+            // Removed first, so a failed write can't leave an entry in memory that isn't stored
+            memory.delete(key);
+            await cacheStore.set(key, entry);
+            remember(key, entry);
+        },
+        del: async key => {
+            memory.delete(key);
+            await cacheStore.del(key);
+        },
+        getMany: async keys => {
+            const missingKeys = keys.filter(key => !memory.has(key));
+            const missingEntries = missingKeys.length ? await getManyEntries(cacheStore, missingKeys) : [];
+            missingKeys.forEach((key, index) => remember(key, missingEntries[index]));
+
+            return keys.map(key => copy(memory.get(key)) ?? missingEntries[missingKeys.indexOf(key)]);
+        },
+        setMany: async entries => {
+            entries.forEach(([key]) => memory.delete(key));
+            await setManyEntries(cacheStore, entries);
+            entries.forEach(([key, entry]) => remember(key, entry));
+        },
+        keys: cacheStore.keys,
+        clear: async () => {
+            memory.clear();
+            await clearEntries(cacheStore);
+        },
+        lock: cacheStore.lock,
+        onChange: cacheStore.onChange
+    }
+}
@@ -0,0 +1,302 @@
+import { CollectionReference, DocumentData, Firestore, FirestoreDataConverter, OrderByDirection, Query, UpdateData, WhereFilterOp } from "firebase/firestore";
+import { DocWrapperError } from "./errors.js";
+
+export type LooseObject = {
+    [key: string]: any
+}
+
+/**
+ * The format every cache store persists documents in,
+ * `persistentCacheTime` is only set when the cache time was locked
+ * and `lastAccessedAt` is only set by stores with limits.
+ * Entries stored before `exists` was added are missing documents if they have no `doc`.
+**/
+export type CacheEntry = {
+    fetchedAt: number,
+    exists?: boolean,
+    persistentCacheTime?: number,
+    lastAccessedAt?: number,
+    doc: LooseObject
+}
+
+/**
+ * A storage backend for the document cache, implement this to store
+ * the cache anywhere you like or use one of the built-in adapters.
+ * 
+ * `getMany` and `setMany` are optional, stores that can read or write
+ * several entries at once (e.g. in a single transaction) should implement them.
+ * 
+ * `keys` and `clear` are optional too, but without `keys` the cache can't be
+ * purged by prefix or cleared.
+ * 
+ * Stores shared with other tabs or processes can implement `lock`, so only one of them
+ * refreshes an entry at a time, and `onChange`, to tell about changes made by the others.
+**/
+export type CacheStore = {
+    get: (key: string) => Promise<CacheEntry | undefined>,
+    set: (key: string, entry: CacheEntry) => Promise<void>,
+    del: (key: string) => Promise<void>,
+    getMany?: (keys: string[]) => Promise<(CacheEntry | undefined)[]>,
+    setMany?: (entries: [string, CacheEntry][]) => Promise<void>,
+    keys?: () => Promise<string[]>,
+    clear?: () => Promise<void>,
+    lock?: <R>(key: string, task: () => Promise<R>) => Promise<R>,
+    onChange?: (listener: (change: CacheChange) => void) => () => void
+}
+
+export type CacheChange = {
+    type: "set",
+    key: string,
+    entry: CacheEntry
+} | {
+    type: "del",
+    key: string
+} | {
+    type: "clear"
+}
+
+export type CrossTabCacheStore = CacheStore & {
+    close: () => void
+}
+
+export type CacheSnapshot = {
+    version: number,
+    exportedAt: number,
+    entries: {
+        [key: string]: CacheEntry
+    }
+}
+
+export type CacheLimits = {
+    maxEntries?: number,
+    maxBytes?: number,
+    maxAge?: number,
+    sweepInterval?: number
+}
+
+export type EvictionStats = {
+    // Entries removed because they were past their locked cache time or max age
+    expired: number,
+    // Entries removed to stay within the max entries or bytes
+    evicted: number
+}
+
+export type EvictingCacheStore = CacheStore & {
+    sweep: () => Promise<number>,
+    getEvictionStats: () => EvictionStats,
+    stop: () => void
+}
+
+export type CacheOptions = {
+    enabled?: boolean,
+    cacheTime?: {
+        locked?: boolean,
+        time?: number,
+        bypassLockedTime?: boolean
+    }
+    forceRefresh?: boolean,
+    missingDocTime?: number,
+    staleWhileRevalidate?: {
+        enabled?: boolean,
+        maxStale?: number
+    },
+    fallbackToStaleOnError?: {
+        enabled?: boolean,
+        maxAge?: number
+    }
+}
+
+export type RetryOptions = {
+    enabled?: boolean,
+    maxRetries?: number,
+    retryDelay?: number,
+    backoff?: {
+        strategy?: "fixed" | "linear" | "exponential",
+        maxDelay?: number,
+        jitter?: "none" | "full" | "equal"
+    },
+    retryOnErrorCode?: string[],
+    onRetry?: (attempt: number, error: any, delay: number) => void
+}
+
+export type Options<T = DocumentData> = {
+    cacheOptions?: CacheOptions,
+    retryOptions?: RetryOptions,
+    cacheStore?: CacheStore,
+    converter?: FirestoreDataConverter<T>,
+    validate?: (data: any) => T,
+    onRevalidate?: (newData: T | undefined) => void,
+    onRevalidateError?: (err: any) => void,
+    onStaleFallback?: (err: DocWrapperError) => void,
+    signal?: AbortSignal,
+    timeoutMs?: number,
+    namespace?: boolean | string,
+    throwIfMissing?: boolean,
+    hooks?: Hooks
+}
+
+/**
+ * `cacheWrite` decides whether the cache entry is replaced with the written document (`"writeThrough"`, the default)
+ * or removed (`"invalidate"`), documents that can't be known without reading them are always removed.
+ * With `optimistic` the cache is updated before the write and rolled back if it fails.
+**/
+export type WriteOptions = Pick<Options, "cacheOptions" | "retryOptions" | "cacheStore" | "namespace" | "signal" | "timeoutMs" | "hooks"> & {
+    cacheWrite?: "writeThrough" | "invalidate",
+    optimistic?: boolean
+}
+
+export type SetOptions = WriteOptions & {
+    merge?: boolean
+}
+
+/**
+ * Why an entry was (or wasn't) used, e.g. `"locked time valid"` or `"one-time stale"`.
+**/
+export type CacheReason = `${"locked time" | "one-time" | "missing doc"} ${"valid" | "stale"}` | "not cached" | "force refresh" | "cache disabled";
+
+export type CacheHitEvent = {
+    path: string,
+    reason: CacheReason,
+    stale: boolean,
+    ageMs: number,
+    durationMs: number
+}
+
+export type CacheMissEvent = {
+    path: string,
+    reason: CacheReason
+}
+
+export type FetchEvent = {
+    path: string,
+    exists: boolean,
+    retries: number,
+    durationMs: number
+}
+
+export type RetryEvent = {
+    path: string,
+    attempt: number,
+    error: any,
+    delay: number
+}
+
+export type DocErrorEvent = {
+    path: string,
+    error: any,
+    durationMs: number
+}
+
+/**
+ * Called as documents are read, errors thrown by the hooks are ignored.
+ * `onFetch` is called once per request sent to Firestore, even if several calls share it.
+**/
+export type Hooks = {
+    onCacheHit?: (event: CacheHitEvent) => void,
+    onCacheMiss?: (event: CacheMissEvent) => void,
+    onFetch?: (event: FetchEvent) => void,
+    onRetry?: (event: RetryEvent) => void,
+    onError?: (event: DocErrorEvent) => void
+}
+
+export type Stats = {
+    hits: number,
+    staleHits: number,
+    misses: number,
+    fetches: number,
+    retries: number,
+    errors: number
+}
+
+export type CacheManagementOptions = Pick<Options, "cacheStore" | "namespace"> & {
+    db?: Firestore
+}
+
+export type DocDetails<T> = {
+    data: T | undefined,
+    exists: boolean,
+    source: "cache" | "server",
+    stale: boolean,
+    fetchedAt: number,
+    ageMs: number,
+    retries: number,
+    lockedCacheTime?: number
+}
+
+export type QueryDoc<T> = {
+    id: string,
+    path: string,
+    data: T | undefined
+}
+
+/**
+ * A query described as plain data next to its collection, so its cache key can be derived from the constraints
+ * (Firestore doesn't expose the constraints of a `Query`). Each field works like the constraint of the same name.
+**/
+export type QuerySpec = {
+    collection: CollectionReference,
+    where?: [fieldPath: string, opStr: WhereFilterOp, value: unknown][],
+    orderBy?: [fieldPath: string, directionStr?: OrderByDirection][],
+    limit?: number,
+    limitToLast?: number,
+    startAt?: unknown[],
+    startAfter?: unknown[],
+    endAt?: unknown[],
+    endBefore?: unknown[]
+}
+
+export type QueryOptions<T = DocumentData> = Omit<Options<T>, "onRevalidate"> & {
+    cacheKey?: string,
+    onRevalidate?: (newDocs: QueryDoc<T>[]) => void
+}
+
+export type BatchOptions<T = DocumentData> = Omit<Options<T>, "onRevalidate"> & {
+    concurrency?: number,
+    onRevalidate?: (path: string, newData: T | undefined) => void
+}
+
+export type DocResult<T> = {
+    data?: T,
+    error?: any
+}
+
+export type DocResults<T> = {
+    [path: string]: DocResult<T>
+}
+
+/**
+ * `overrides` are keyed by path patterns where `*` matches a single segment (e.g. `"users/*"`),
+ * the first pattern matching the path is applied over the defaults.
+ * 
+ * The client's cache is always scoped to the project and database, `namespace` scopes it further (e.g. to the signed-in user).
+**/
+export type DocWrapperConfig = {
+    defaults?: Options<any>,
+    overrides?: {
+        [pattern: string]: Options<any>
+    },
+    storeName?: string,
+    namespace?: string
+}
+
+export type DocWrapperClient = {
+    get: <T = DocumentData>(path: string, options?: Options<T>) => Promise<T | undefined>,
+    getDetailed: <T = DocumentData>(path: string, options?: Options<T>) => Promise<DocDetails<T>>,
+    getMany: <T = DocumentData>(paths: string[], options?: BatchOptions<T>) => Promise<DocResults<T>>,
+    prefetch: (paths: string[], options?: BatchOptions) => Promise<number>,
+    query: <T = DocumentData>(query: Query | QuerySpec, options?: QueryOptions<T>) => Promise<QueryDoc<T>[]>,
+    subscribe: <T = DocumentData>(path: string, options: Options<T> | undefined, callback: (data: T | undefined) => void, onError?: (err: any) => void) => () => void,
+    set: (path: string, data: DocumentData, options?: SetOptions) => Promise<void>,
+    update: (path: string, data: UpdateData<DocumentData>, options?: WriteOptions) => Promise<void>,
+    delete: (path: string, options?: WriteOptions) => Promise<void>,
+    invalidate: (path: string) => Promise<void>,
+    invalidatePrefix: (prefix: string) => Promise<number>,
+    clear: () => Promise<void>,
+    peek: (path: string) => Promise<CacheEntry | undefined>,
+    setLockedCacheTime: (path: string, time: number) => Promise<boolean>,
+    unlockCacheTime: (path: string) => Promise<boolean>,
+    getStats: () => Stats,
+    exportCache: () => Promise<CacheSnapshot>,
+    importCache: (snapshot: CacheSnapshot | string, options?: { overwrite?: boolean }) => Promise<number>,
+    cacheStore: CacheStore
+}
@@ -0,0 +1,160 @@
+import { deleteDoc, doc as docRef, DocumentData, FieldValue, Firestore, setDoc, UpdateData, updateDoc } from "firebase/firestore";
+import { withCacheErrors } from "./cacheStores.js";
+import { cacheEntryExists, createCacheEntry } from "./cacheTime.js";
+import { Cancellation, withCancellation } from "./cancellation.js";
+import { isPlainObject } from "./codec.js";
+import { AbortError, CacheReadError, TimeoutError } from "./errors.js";
+import { resolveCacheStore } from "./namespacedStore.js";
+import { createObserver, observeRetries } from "./observability.js";
+import { requestWithRetries } from "./requestDoc.js";
+import { CacheEntry, LooseObject, SetOptions, WriteOptions } from "./types.js";
+
+/**
+ * Works out the document as it will be after the write from the cached entry,
+ * returns `undefined` if it can't be known without reading the document.
+**/
+type LocalWrite = (cacheEntry: CacheEntry | undefined) => { doc: LooseObject | undefined } | undefined;
+
+// Sentinels like `serverTimestamp()` or `increment()` are only resolved by Firestore
+const hasFieldValues = (value: any): boolean => {
+    if (value instanceof FieldValue) {
+        return true;
+    }
+    if (Array.isArray(value)) {
+        return value.some(hasFieldValues);
+    }
+    return isPlainObject(value) && Object.values(value).some(hasFieldValues);
+}
+
+const mergeFields = (target: LooseObject, source: LooseObject): LooseObject => {
+    const merged = { ...target };
+    Object.entries(source).forEach(([field, value]) => {
+        merged[field] = isPlainObject(value) && isPlainObject(merged[field]) ? mergeFields(merged[field], value) : value;
+    });
+    return merged;
+}
+
+const setField = (target: LooseObject, fieldPath: string[], value: any): LooseObject => {
+    const [field, ...rest] = fieldPath;
+    return {
+        ...target,
+        [field]: rest.length ? setField(isPlainObject(target[field]) ? target[field] : {}, rest, value) : value
+    }
+}
+
+/**
+ * Writes to Firestore with the usual retries and keeps the cache entry in sync,
+ * this is the actual work behind `setDocWrapper`, `updateDocWrapper` and `deleteDocWrapper`.
+ * Cache errors never fail a write that reached Firestore, they're reported to the `onError` hook
+ * and the entry is removed instead of updated.
+**/
+async function writeDoc(db: Firestore, path: string, write: () => Promise<void>, localWrite: LocalWrite, options?: WriteOptions, cancellation?: Cancellation): Promise<void> {
+    const cacheStore = resolveCacheStore(db, options);
+    const firestoreWrapperCache = withCacheErrors(cacheStore);
+    const observer = createObserver(cacheStore, path, options?.hooks);
+    const writeThrough = (options?.cacheWrite || "writeThrough") === "writeThrough";
+
+    // An entry that can't be read is treated as not cached, so it's removed rather than written through
+    let previousEntry: CacheEntry | undefined;
+    let cacheReadable = true;
+    try {
+        previousEntry = await firestoreWrapperCache.get(path);
+    } catch (err) {
+        if (!(err instanceof CacheReadError)) {
+            throw err;
+        }
+        observer.error(err);
+        cacheReadable = false;
+    }
+    const newDoc = writeThrough && cacheReadable ? localWrite(previousEntry) : undefined;
+
+    const updateCache = () => {
+        if (!newDoc) {
+            return firestoreWrapperCache.del(path);
+        }
+        const newEntry = createCacheEntry(newDoc.doc, options?.cacheOptions);
+        // Writing the document doesn't unlock its cache time
+        newEntry.persistentCacheTime ??= previousEntry?.persistentCacheTime;
+        return firestoreWrapperCache.set(path, newEntry);
+    }
+
+    if (options?.optimistic) {
+        await updateCache();
+    }
+
+    try {
+        await requestWithRetries(path, write, observeRetries(cacheStore, path, options?.retryOptions, options?.hooks), cancellation);
+    } catch (err) {
+        observer.error(err);
+        if (options?.optimistic) {
+            // A cancelled write might still reach Firestore, so the document can't be trusted either way
+            if (err instanceof AbortError || err instanceof TimeoutError || !previousEntry) {
+                await firestoreWrapperCache.del(path);
+            } else {
+                await firestoreWrapperCache.set(path, previousEntry);
+            }
+        }
+        throw err;
+    }
+
+    if (!options?.optimistic) {
+        // The document is already written, so the cache is only updated on a best-effort basis
+        await updateCache().catch(err => {
+            observer.error(err);
+            return firestoreWrapperCache.del(path).catch(() => undefined);
+        });
+    }
+}
+
+/**
+ * Writes the document with `setDoc` (merging it into the existing one if `merge` is set)
+ * using the same retries as `getDocWrapper`, then updates or removes its cache entry (see `cacheWrite`).
+ * 
+ * With `optimistic` the cache entry is updated first, and restored if the write fails.
+ * @throws {RetryExhaustedError | NonRetryableError} If the write failed.
+**/
+export function setDocWrapper(db: Firestore, path: string, data: DocumentData, options?: SetOptions): Promise<void> {
+    const localWrite: LocalWrite = cacheEntry => {
+        if (hasFieldValues(data)) {
+            return undefined;
+        }
+        if (!options?.merge) {
+            return { doc: data };
+        }
+        // Merging into a document that isn't cached would leave out its other fields
+        if (!cacheEntry) {
+            return undefined;
+        }
+        return { doc: cacheEntryExists(cacheEntry) ? mergeFields(cacheEntry.doc, data) : data };
+    }
+
+    return withCancellation(path, options, cancellation => writeDoc(db, path, async () => {
+        await setDoc(docRef(db, path), data, { merge: !!options?.merge });
+    }, localWrite, options, cancellation));
+}
+
+/**
+ * Updates the document's fields (dotted field paths like `"address.city"` are supported) with `updateDoc`,
+ * works like `setDocWrapper` otherwise.
+ * @throws {RetryExhaustedError | NonRetryableError} If the update failed (e.g. because the document doesn't exist).
+**/
+export function updateDocWrapper(db: Firestore, path: string, data: UpdateData<DocumentData>, options?: WriteOptions): Promise<void> {
+    const localWrite: LocalWrite = cacheEntry => {
+        if (!cacheEntry || !cacheEntryExists(cacheEntry) || hasFieldValues(data)) {
+            return undefined;
+        }
+        const doc = Object.entries(data).reduce((updatedDoc, [fieldPath, value]) => setField(updatedDoc, fieldPath.split("."), value), cacheEntry.doc);
+        return { doc };
+    }
+
+    return withCancellation(path, options, cancellation => writeDoc(db, path, () => updateDoc(docRef(db, path), data), localWrite, options, cancellation));
+}
+
+/**
+ * Deletes the document with `deleteDoc`, works like `setDocWrapper` otherwise,
+ * with `"writeThrough"` the document is cached as missing.
+ * @throws {RetryExhaustedError | NonRetryableError} If the deletion failed.
+**/
+export function deleteDocWrapper(db: Firestore, path: string, options?: WriteOptions): Promise<void> {
+    return withCancellation(path, options, cancellation => writeDoc(db, path, () => deleteDoc(docRef(db, path)), () => ({ doc: undefined }), options, cancellation));
+}
@@ -0,0 +1,81 @@
+import "fake-indexeddb/auto";
+import {
+    clearCache,
+    createMemoryStore,
+    invalidateDoc,
+    invalidatePrefix,
+    peekCache,
+    setLockedCacheTime,
+    unlockCacheTime,
+    CacheReadError
+} from "../src/index";
+import { CacheEntry, CacheStore } from "../src/types";
+
+const testEntry: CacheEntry = {
+    fetchedAt: 1000,
+    doc: {
+        testData: "test"
+    }
+}
+
+let cacheStore: CacheStore;
+
+beforeEach(async () => {
+    cacheStore = createMemoryStore();
+    await cacheStore.set("users/abc", testEntry);
+    await cacheStore.set("users/abc/posts/1", testEntry);
+    await cacheStore.set("users/def", testEntry);
+});
+
+describe("Cache management", () => {
+    it("Will peek at the cache entry without requesting the document", async () => {
+        expect(await peekCache("users/abc", { cacheStore, namespace: false })).toEqual(testEntry);
+        expect(await peekCache("users/xyz", { cacheStore, namespace: false })).toBeUndefined();
+    });
+
+    it("Will invalidate a single document", async () => {
+        await invalidateDoc("users/abc", { cacheStore, namespace: false });
+
+        expect(await cacheStore.get("users/abc")).toBeUndefined();
+        expect(await cacheStore.get("users/abc/posts/1")).toEqual(testEntry);
+    });
+
+    it("Will invalidate every document under a prefix", async () => {
+        const removed = await invalidatePrefix("users/abc/", { cacheStore, namespace: false });
+
+        expect(removed).toBe(1);
+        expect(await cacheStore.get("users/abc")).toEqual(testEntry);
+        expect(await cacheStore.get("users/abc/posts/1")).toBeUndefined();
+    });
+
+    it("Will clear the whole cache", async () => {
+        await clearCache({ cacheStore });
+
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will lock and unlock the cache time of a cached document", async () => {
+        expect(await setLockedCacheTime("users/abc", 5000, { cacheStore, namespace: false })).toBe(true);
+        expect((await cacheStore.get("users/abc")).persistentCacheTime).toBe(5000);
+
+        expect(await unlockCacheTime("users/abc", { cacheStore, namespace: false })).toBe(true);
+        expect(await cacheStore.get("users/abc")).toEqual(testEntry);
+        expect(await cacheStore.get("users/abc")).not.toHaveProperty("persistentCacheTime");
+    });
+
+    it("Will not lock the cache time of a document that is not cached", async () => {
+        expect(await setLockedCacheTime("users/xyz", 5000, { cacheStore, namespace: false })).toBe(false);
+        expect(await cacheStore.get("users/xyz")).toBeUndefined();
+    });
+
+    it("Will reject prefix purges on stores that can't list their keys", async () => {
+        expect.assertions(1);
+        const { get, set, del } = createMemoryStore();
+
+        try {
+            await invalidatePrefix("users/", { cacheStore: { get, set, del }, namespace: false });
+        } catch (err) {
+            expect(err).toBeInstanceOf(CacheReadError);
+        }
+    });
+});
@@ -0,0 +1,98 @@
+import { getDoc, Timestamp } from "firebase/firestore";
+import getDocWrapper, { CACHE_SNAPSHOT_VERSION, createMemoryStore, DocWrapperError, exportCache, getDocWrapperDetailed, importCache, prefetchDocs } from "../src/index";
+import { CacheStore } from "../src/types";
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(async (path: string) => {
+            if (path === "invalidRequest") {
+                throw { code: "permission-denied" };
+            }
+            return { data: () => ({ path, createdAt: new originalModule.Timestamp(1700000000, 0) }), metadata: { fromCache: false } };
+        })
+    }
+});
+
+const cacheOptions = {
+    enabled: true,
+    cacheTime: {
+        time: Number.POSITIVE_INFINITY
+    }
+}
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    (getDoc as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("prefetchDocs", () => {
+    it("Will cache the documents that aren't cached yet", async () => {
+        await cacheStore.set("docs/a", { fetchedAt: Date.now(), doc: { path: "docs/a" } });
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const count = await prefetchDocs(null, ["docs/a", "docs/b", "invalidRequest"], { cacheStore, cacheOptions });
+
+        expect(count).toBe(2);
+        expect(getDoc).toHaveBeenCalledTimes(2);
+        expect(await cacheStore.keys()).toEqual(["docs/a", "docs/b"]);
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const details = await getDocWrapperDetailed(null, "docs/b", { cacheStore, cacheOptions });
+        expect(details.source).toBe("cache");
+    });
+});
+
+describe("exportCache and importCache", () => {
+    it("Will move the cache to another store through JSON", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: { ...cacheOptions, cacheTime: { time: 60000, locked: true } } });
+        const snapshot = JSON.stringify(await exportCache({ cacheStore, namespace: false }));
+
+        const otherStore = createMemoryStore();
+        expect(await importCache(snapshot, { cacheStore: otherStore, namespace: false })).toBe(1);
+        expect(await otherStore.get("docs/a")).toEqual(await cacheStore.get("docs/a"));
+        expect((await otherStore.get("docs/a")).persistentCacheTime).toBe(60000);
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const details = await getDocWrapperDetailed(null, "docs/a", { cacheStore: otherStore, cacheOptions });
+        expect(details.source).toBe("cache");
+        expect(details.data.createdAt).toBeInstanceOf(Timestamp);
+    });
+
+    it("Will leave newer entries alone unless asked to overwrite them", async () => {
+        const snapshot = {
+            version: CACHE_SNAPSHOT_VERSION,
+            exportedAt: Date.now(),
+            entries: {
+                "docs/a": { fetchedAt: 1000, doc: { testData: "old" } },
+                "docs/b": { fetchedAt: 1000, doc: { testData: "old" } }
+            }
+        }
+        await cacheStore.set("docs/a", { fetchedAt: 2000, doc: { testData: "new" } });
+
+        expect(await importCache(snapshot, { cacheStore, namespace: false })).toBe(1);
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "new" });
+
+        expect(await importCache(snapshot, { cacheStore, namespace: false, overwrite: true })).toBe(2);
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "old" });
+    });
+
+    it("Will reject incompatible or malformed snapshots", async () => {
+        await expect(importCache({ version: CACHE_SNAPSHOT_VERSION + 1, exportedAt: 0, entries: {} }, { cacheStore, namespace: false })).rejects.toBeInstanceOf(DocWrapperError);
+        // @ts-expect-error - The entry is missing its fetchedAt on purpose
+        await expect(importCache({ version: CACHE_SNAPSHOT_VERSION, exportedAt: 0, entries: { "docs/a": { doc: {} } } }, { cacheStore, namespace: false })).rejects.toThrow("malformed");
+        await expect(importCache("{}", { cacheStore, namespace: false })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(importCache("{ not json", { cacheStore, namespace: false })).rejects.toThrow("malformed");
+        await expect(importCache(JSON.stringify({ version: CACHE_SNAPSHOT_VERSION, exportedAt: 0, entries: null }), { cacheStore, namespace: false })).rejects.toThrow("malformed");
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+});
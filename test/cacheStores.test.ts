@@ -0,0 +1,94 @@
+import "fake-indexeddb/auto";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import getDocWrapper, { createIndexedDBStore, createMemoryStore, createTieredStore, createWebStorageStore } from "../src/index";
+import createFileStore from "../src/fileStore";
+import { CacheEntry, CacheStore } from "../src/types";
+
+const testEntry: CacheEntry = {
+    fetchedAt: 1000,
+    persistentCacheTime: 5000,
+    doc: {
+        testData: "test"
+    }
+}
+
+function createFakeStorage(): Storage {
+    const items = new Map<string, string>();
+
+    return {
+        get length() { return items.size },
+        key: index => Array.from(items.keys())[index] ?? null,
+        getItem: key => items.has(key) ? items.get(key) : null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+        clear: () => items.clear()
+    }
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(() => Promise.resolve({ data() { return { testData: "test" } }, metadata: { fromCache: false } }))
+    }
+});
+
+const fileStorePath = join(tmpdir(), `firestoreWrapperCache-${process.pid}.json`);
+
+afterAll(async () => {
+    await fs.rm(fileStorePath, { force: true });
+});
+
+describe.each<[string, () => CacheStore]>([
+    ["IndexedDB store", () => createIndexedDBStore("firestoreWrapperCacheTest", "docs")],
+    ["memory store", () => createMemoryStore()],
+    ["Web Storage store", () => createWebStorageStore(createFakeStorage())],
+    ["file store", () => createFileStore(fileStorePath)],
+    ["tiered store", () => createTieredStore(createIndexedDBStore("firestoreWrapperCacheTieredTest", "docs"))]
+])("%s", (_, createCacheStore) => {
+    it("Will store, return and delete entries in the same format", async () => {
+        const cacheStore = createCacheStore();
+
+        expect(await cacheStore.get("testPath")).toBeUndefined();
+
+        await cacheStore.set("testPath", testEntry);
+        expect(await cacheStore.get("testPath")).toEqual(testEntry);
+
+        await cacheStore.del("testPath");
+        expect(await cacheStore.get("testPath")).toBeUndefined();
+    });
+
+    it("Will list and clear its entries", async () => {
+        const cacheStore = createCacheStore();
+
+        await cacheStore.set("users/abc", testEntry);
+        await cacheStore.set("users/def", testEntry);
+        expect((await cacheStore.keys()).sort()).toEqual(["users/abc", "users/def"]);
+
+        await cacheStore.clear();
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will be used by getDocWrapper when passed as the cache store", async () => {
+        const cacheStore = createCacheStore();
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const result = await getDocWrapper(null, "validRequest", {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        });
+
+        expect(result).toEqual({ testData: "test" });
+        expect((await cacheStore.get("validRequest"))?.doc).toEqual({ testData: "test" });
+        await cacheStore.del("validRequest");
+    });
+});
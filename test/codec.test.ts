@@ -0,0 +1,85 @@
+import "fake-indexeddb/auto";
+import { initializeApp } from "firebase/app";
+import { Bytes, doc, DocumentReference, GeoPoint, getDoc, getFirestore, Timestamp } from "firebase/firestore";
+import { createIndexedDBStore, createMemoryStore, getDocWrapperDetailed } from "../src/index";
+import { CacheEntry, CacheStore } from "../src/types";
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        getDoc: jest.fn()
+    }
+});
+
+const db = getFirestore(initializeApp({ projectId: "demo-codec" }, "codec"));
+
+const createTestDocument = () => ({
+    createdAt: new Timestamp(1700000000, 500),
+    location: new GeoPoint(51.5, -0.12),
+    author: doc(db, "users/abc"),
+    avatar: Bytes.fromUint8Array(new Uint8Array([1, 2, 3])),
+    history: [{ at: new Timestamp(1600000000, 0) }],
+    title: "test"
+});
+
+// Stores the entries as JSON, like the Web Storage and file stores do
+function createJSONStore(): CacheStore {
+    const entries = new Map<string, string>();
+
+    return {
+        get: async key => entries.has(key) ? JSON.parse(entries.get(key)) as CacheEntry : undefined,
+        set: async (key, entry) => { entries.set(key, JSON.stringify(entry)); },
+        del: async key => { entries.delete(key); }
+    }
+}
+
+beforeEach(() => {
+    (getDoc as jest.Mock).mockReset().mockImplementation(async () => ({ data: () => createTestDocument(), metadata: { fromCache: false } }));
+});
+
+describe.each<[string, () => CacheStore]>([
+    ["memory store", () => createMemoryStore()],
+    ["IndexedDB store", () => createIndexedDBStore("firestoreWrapperCodecTest", "docs")],
+    ["JSON store", () => createJSONStore()]
+])("Firestore types in the %s", (_, createCacheStore) => {
+    it("Will come back from the cache as Firestore types", async () => {
+        const options = {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: Number.POSITIVE_INFINITY
+                }
+            },
+            cacheStore: createCacheStore()
+        }
+
+        await getDocWrapperDetailed(db, "docs/codec", options);
+        const details = await getDocWrapperDetailed(db, "docs/codec", options);
+        const data = details.data;
+
+        expect(details.source).toBe("cache");
+        expect(data.createdAt).toBeInstanceOf(Timestamp);
+        expect(data.createdAt.isEqual(new Timestamp(1700000000, 500))).toBe(true);
+        expect(data.location).toBeInstanceOf(GeoPoint);
+        expect(data.location.isEqual(new GeoPoint(51.5, -0.12))).toBe(true);
+        expect(data.author).toBeInstanceOf(DocumentReference);
+        expect(data.author.path).toBe("users/abc");
+        expect(data.author.firestore).toBe(db);
+        expect(data.avatar).toBeInstanceOf(Bytes);
+        expect(Array.from(data.avatar.toUint8Array())).toEqual([1, 2, 3]);
+        expect(data.history[0].at).toBeInstanceOf(Timestamp);
+        expect(data.title).toBe("test");
+    });
+});
+
+describe("Firestore types from the server", () => {
+    it("Will be returned as they are", async () => {
+        const data = (await getDocWrapperDetailed(db, "docs/codec")).data;
+
+        expect(data.createdAt).toBeInstanceOf(Timestamp);
+        expect(data.author).toBeInstanceOf(DocumentReference);
+    });
+});
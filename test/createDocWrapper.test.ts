@@ -0,0 +1,200 @@
+import "fake-indexeddb/auto";
+import { getDoc } from "firebase/firestore";
+import { createDocWrapper, createMemoryStore } from "../src/index";
+import { CacheStore } from "../src/types";
+
+const createDoc = (data: { [key: string]: any } | undefined) => ({ data() { return data }, metadata: { fromCache: false } });
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(async (path: string) => createDoc({ path }))
+    }
+});
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    (getDoc as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("createDocWrapper", () => {
+    it("Will use the defaults for every call", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const client = createDocWrapper(null, {
+            defaults: {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: 60000
+                    }
+                },
+                cacheStore
+            }
+        });
+
+        expect(await client.get("docs/a")).toEqual({ path: "docs/a" });
+        expect(await client.get("docs/a")).toEqual({ path: "docs/a" });
+        expect(getDoc).toHaveBeenCalledTimes(1);
+        expect(await cacheStore.get("docs/a")).toBeDefined();
+    });
+
+    it("Will deep merge the options of each call over the defaults", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const client = createDocWrapper(null, {
+            defaults: {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: 60000
+                    }
+                },
+                cacheStore
+            }
+        });
+
+        await client.get("docs/a");
+        // The cache is still enabled, so the refreshed document is stored
+        const details = await client.getDetailed("docs/a", {
+            cacheOptions: {
+                forceRefresh: true
+            }
+        });
+
+        expect(details.source).toBe("server");
+        expect((await cacheStore.get("docs/a")).fetchedAt).toBe(details.fetchedAt);
+    });
+
+    it("Will apply the overrides matching the path", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const client = createDocWrapper(null, {
+            defaults: {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: 30000
+                    }
+                },
+                cacheStore
+            },
+            overrides: {
+                "config/*": {
+                    cacheOptions: {
+                        cacheTime: {
+                            time: 3600000,
+                            locked: true
+                        }
+                    }
+                }
+            }
+        });
+
+        await client.get("config/app");
+        await client.get("users/abc");
+        // Only matches patterns with the same number of segments
+        await client.get("config/app/flags/beta");
+
+        expect((await cacheStore.get("config/app")).persistentCacheTime).toBe(3600000);
+        expect((await cacheStore.get("users/abc")).persistentCacheTime).toBeUndefined();
+        expect((await cacheStore.get("config/app/flags/beta")).persistentCacheTime).toBeUndefined();
+    });
+
+    it("Will get many documents with the overrides of each path", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const client = createDocWrapper(null, {
+            defaults: {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: 30000
+                    }
+                },
+                cacheStore
+            },
+            overrides: {
+                "config/*": {
+                    cacheOptions: {
+                        cacheTime: {
+                            time: 3600000,
+                            locked: true
+                        }
+                    }
+                }
+            }
+        });
+
+        const results = await client.getMany(["config/app", "users/abc"]);
+
+        expect(results).toEqual({
+            "config/app": { data: { path: "config/app" } },
+            "users/abc": { data: { path: "users/abc" } }
+        });
+        expect((await cacheStore.get("config/app")).persistentCacheTime).toBe(3600000);
+        expect((await cacheStore.get("users/abc")).persistentCacheTime).toBeUndefined();
+    });
+
+    it("Will keep the cache of each namespace apart", async () => {
+        const defaults = {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: 60000
+                }
+            },
+            cacheStore
+        }
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const firstClient = createDocWrapper(null, { defaults, namespace: "first" });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const secondClient = createDocWrapper(null, { defaults, namespace: "second" });
+
+        await firstClient.get("docs/a");
+        await secondClient.get("docs/a");
+        expect(getDoc).toHaveBeenCalledTimes(2);
+        expect((await cacheStore.keys()).sort()).toEqual(["first:docs/a", "second:docs/a"]);
+
+        await firstClient.clear();
+        expect(await cacheStore.keys()).toEqual(["second:docs/a"]);
+        expect(await secondClient.peek("docs/a")).toBeDefined();
+    });
+
+    it("Will share the store of the same storeName between clients", () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const firstClient = createDocWrapper(null, { storeName: "sharedStore" });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const secondClient = createDocWrapper(null, { storeName: "sharedStore" });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const otherClient = createDocWrapper(null, { storeName: "otherStore" });
+
+        expect(secondClient.cacheStore).toBe(firstClient.cacheStore);
+        expect(otherClient.cacheStore).not.toBe(firstClient.cacheStore);
+    });
+
+    it("Will manage the cache of the client", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const client = createDocWrapper(null, {
+            defaults: {
+                cacheOptions: {
+                    enabled: true
+                },
+                cacheStore
+            }
+        });
+
+        await client.get("users/abc/posts/a");
+        await client.get("users/abc/posts/b");
+        expect(await client.setLockedCacheTime("users/abc/posts/a", 1000)).toBe(true);
+        expect((await client.peek("users/abc/posts/a")).persistentCacheTime).toBe(1000);
+
+        await client.invalidate("users/abc/posts/a");
+        expect(await client.peek("users/abc/posts/a")).toBeUndefined();
+        expect(await client.invalidatePrefix("users/abc/")).toBe(1);
+    });
+});
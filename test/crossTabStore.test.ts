@@ -0,0 +1,153 @@
+import { getDoc } from "firebase/firestore";
+import getDocWrapper, { createCrossTabStore, createMemoryStore, getDocWrapperDetailed, subscribeDocWrapper } from "../src/index";
+import { CacheChange, CacheStore, CrossTabCacheStore } from "../src/types";
+
+const createDoc = (data: { [key: string]: any } | undefined) => ({ data() { return data }, metadata: { fromCache: false } });
+const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Messages between tabs take a while to arrive
+const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+        await timeout(10);
+    }
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(async (path: string) => {
+            await timeout(5);
+            return createDoc({ path });
+        }),
+        onSnapshot: jest.fn(() => jest.fn())
+    }
+});
+
+// Runs the tasks holding the same lock one after the other, like the Web Locks API
+const createLockManager = () => {
+    const queues = new Map<string, Promise<any>>();
+    return {
+        request: (name: string, task: () => Promise<any>) => {
+            const result = (queues.get(name) || Promise.resolve()).then(task);
+            queues.set(name, result.catch(() => {}));
+            return result;
+        }
+    } as unknown as LockManager;
+}
+
+let sharedStore: CacheStore;
+let tabs: CrossTabCacheStore[];
+
+const openTab = (locks = createLockManager()) => {
+    const tab = createCrossTabStore(sharedStore, { channelName: "crossTabTest", locks });
+    tabs.push(tab);
+    return tab;
+}
+
+beforeEach(() => {
+    (getDoc as jest.Mock).mockClear();
+    sharedStore = createMemoryStore();
+    tabs = [];
+});
+
+afterEach(() => {
+    tabs.forEach(tab => tab.close());
+});
+
+const cacheOptions = {
+    enabled: true,
+    cacheTime: {
+        time: Number.POSITIVE_INFINITY
+    }
+}
+
+describe("createCrossTabStore", () => {
+    it("Will tell the other tabs about writes, deletions and clears", async () => {
+        const firstTab = openTab();
+        const secondTab = openTab();
+        const changes: CacheChange[] = [];
+        secondTab.onChange(change => changes.push(change));
+
+        const entry = { fetchedAt: Date.now(), doc: { testData: "test" } };
+        await firstTab.set("docs/a", entry);
+        await firstTab.del("docs/a");
+        await firstTab.clear();
+        await waitFor(() => changes.length === 3);
+
+        expect(changes).toEqual([
+            { type: "set", key: "docs/a", entry },
+            { type: "del", key: "docs/a" },
+            { type: "clear" }
+        ]);
+    });
+
+    it("Will stop telling a listener about changes once it's removed", async () => {
+        const firstTab = openTab();
+        const secondTab = openTab();
+        const listener = jest.fn();
+        const removeListener = secondTab.onChange(listener);
+        removeListener();
+
+        const otherListener = jest.fn();
+        secondTab.onChange(otherListener);
+        await firstTab.set("docs/a", { fetchedAt: Date.now(), doc: {} });
+        await waitFor(() => otherListener.mock.calls.length > 0);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("Will only let one tab refresh a document at a time", async () => {
+        const locks = createLockManager();
+        const firstTab = openTab(locks);
+        const secondTab = openTab(locks);
+
+        const [firstDetails, secondDetails] = await Promise.all([
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocWrapperDetailed(null, "docs/a", { cacheOptions, cacheStore: firstTab }),
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocWrapperDetailed(null, "docs/a", { cacheOptions, cacheStore: secondTab })
+        ]);
+
+        expect(getDoc).toHaveBeenCalledTimes(1);
+        expect(firstDetails.source).toBe("server");
+        expect(secondDetails.source).toBe("cache");
+        expect(secondDetails.data).toEqual({ path: "docs/a" });
+    });
+
+    it("Will still refresh the document when forced to", async () => {
+        const locks = createLockManager();
+        const firstTab = openTab(locks);
+        const secondTab = openTab(locks);
+        const forcedCacheOptions = { ...cacheOptions, forceRefresh: true };
+
+        await Promise.all([
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocWrapper(null, "docs/a", { cacheOptions: forcedCacheOptions, cacheStore: firstTab }),
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocWrapper(null, "docs/a", { cacheOptions: forcedCacheOptions, cacheStore: secondTab })
+        ]);
+
+        expect(getDoc).toHaveBeenCalledTimes(2);
+    });
+
+    it("Will emit documents stored by other tabs to subscribers", async () => {
+        const firstTab = openTab();
+        const secondTab = openTab();
+        const callback = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const unsubscribe = subscribeDocWrapper(null, "docs/a", { cacheOptions, cacheStore: secondTab }, callback);
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheOptions, cacheStore: firstTab });
+        await waitFor(() => callback.mock.calls.length > 0);
+        unsubscribe();
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback).toHaveBeenCalledWith({ path: "docs/a" });
+    });
+});
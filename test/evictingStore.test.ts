@@ -0,0 +1,74 @@
+import { createEvictingStore, createMemoryStore } from "../src/index";
+import { CacheEntry, CacheStore } from "../src/types";
+
+const createEntry = (fetchedAt: number, doc = { testData: "test" }): CacheEntry => ({
+    fetchedAt,
+    doc
+});
+const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let innerStore: CacheStore;
+
+beforeEach(() => {
+    innerStore = createMemoryStore();
+});
+
+describe("createEvictingStore", () => {
+    it("Will evict the least recently used entries when there are too many", async () => {
+        const cacheStore = createEvictingStore(innerStore, { maxEntries: 2 });
+
+        await cacheStore.set("docs/a", createEntry(Date.now()));
+        await timeout(2);
+        await cacheStore.set("docs/b", createEntry(Date.now()));
+        await timeout(2);
+        // Reading "docs/a" makes "docs/b" the least recently used entry
+        await cacheStore.get("docs/a");
+        await timeout(2);
+        await cacheStore.set("docs/c", createEntry(Date.now()));
+
+        expect((await innerStore.keys()).sort()).toEqual(["docs/a", "docs/c"]);
+        expect(cacheStore.getEvictionStats()).toEqual({ expired: 0, evicted: 1 });
+    });
+
+    it("Will evict entries until they fit in the max bytes", async () => {
+        const largeDoc = { testData: "x".repeat(100) };
+        const cacheStore = createEvictingStore(innerStore, { maxBytes: 400 });
+
+        await cacheStore.set("docs/a", createEntry(Date.now(), largeDoc));
+        await timeout(2);
+        await cacheStore.set("docs/b", createEntry(Date.now(), largeDoc));
+        await timeout(2);
+        await cacheStore.set("docs/c", createEntry(Date.now(), largeDoc));
+
+        expect((await innerStore.keys()).sort()).toEqual(["docs/b", "docs/c"]);
+    });
+
+    it("Will remove the entries past their locked cache time or max age", async () => {
+        await innerStore.set("docs/locked", { ...createEntry(Date.now() - 1000), persistentCacheTime: 500 });
+        await innerStore.set("docs/old", createEntry(Date.now() - 5000));
+        await innerStore.set("docs/fresh", createEntry(Date.now()));
+        const cacheStore = createEvictingStore(innerStore, { maxAge: 2000 });
+
+        expect(await cacheStore.sweep()).toBe(2);
+        expect(await innerStore.keys()).toEqual(["docs/fresh"]);
+        expect(cacheStore.getEvictionStats()).toEqual({ expired: 2, evicted: 0 });
+    });
+
+    it("Will sweep the cache periodically", async () => {
+        await innerStore.set("docs/old", createEntry(Date.now() - 5000));
+        const cacheStore = createEvictingStore(innerStore, { maxAge: 2000, sweepInterval: 5 });
+
+        await timeout(20);
+        cacheStore.stop();
+
+        expect(await innerStore.keys()).toEqual([]);
+    });
+
+    it("Will persist the last access time when writing entries", async () => {
+        const cacheStore = createEvictingStore(innerStore, { maxEntries: 10 });
+
+        await cacheStore.set("docs/a", createEntry(0));
+
+        expect((await innerStore.get("docs/a")).lastAccessedAt).toBeGreaterThan(0);
+    });
+});
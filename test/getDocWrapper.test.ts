@@ -1,5 +1,6 @@
 import "fake-indexeddb/auto";
-import getDocWrapper from "../src/index";
+import { getDoc } from "firebase/firestore";
+import getDocWrapper, { getDocWrapperDetailed, AbortError, CacheReadError, CacheWriteError, createMemoryStore, DocumentNotFoundError, NonRetryableError, RetryExhaustedError, TimeoutError } from "../src/index";
 import { clear, createStore, get } from "idb-keyval";
 
 type InternalCacheEntry = {
@@ -10,7 +11,7 @@ type InternalCacheEntry = {
 type LooseObject = {
     [key: string]: any
 }
-const createDoc = (data: LooseObject | undefined) => ({ data() { return data } });
+const createDoc = (data: LooseObject | undefined, fromCache = false) => ({ data() { return data }, metadata: { fromCache } });
 
 const testDocument = {
     testData: "test"
@@ -65,8 +66,34 @@ jest.mock("firebase/firestore", () => {
                         getDocInternal.retryCounter = 0;
                         return Promise.resolve(createDoc(testDocument));
                     }
+                case "unavailableAfterThreeRetries":
+                    if (getDocInternal.retryCounter < 2) {
+                        getDocInternal.retryCounter++;
+                        return Promise.reject({
+                            code: "unavailable"
+                        });
+                    } else {
+                        getDocInternal.retryCounter = 0;
+                        return Promise.resolve(createDoc(testDocument));
+                    }
+                case "slowRequest":
+                    return new Promise(resolve => setTimeout(() => resolve(createDoc(testDocument)), 20));
+                case "offlineRequest":
+                    return Promise.resolve(createDoc(testDocument, true));
                 case "nonExistentDoc":
                     return Promise.resolve(createDoc(undefined));
+                case "unreachableRequest":
+                    return Promise.reject({
+                        code: "unavailable"
+                    });
+                case "permissionDeniedRequest":
+                    return Promise.reject({
+                        code: "permission-denied"
+                    });
+                case "resourceExhaustedRequest":
+                    return Promise.reject({
+                        code: "resource-exhausted"
+                    });
             }
         })
     }
@@ -290,29 +317,364 @@ describe("getDocWrapper", () => {
         });
     });
 
-    describe("Will retry if the Firestore request fails", () => {
-        it("Will not retry more than the maximum specified number of times and will always retry with error code list not set", async () => {
+    describe("Will serve stale documents while revalidating them", () => {
+        it("Will return the stale document right away and refresh the cache in the background", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocWrapper(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true
+                }
+            });
+
+            const alternativeTestDocument = { ...changeTestDocument("test2") };
+            const revalidatedData = await new Promise(async resolve => {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                const result = await getDocWrapper(null, "validRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        cacheTime: {
+                            time: 0
+                        },
+                        staleWhileRevalidate: {
+                            enabled: true
+                        }
+                    },
+                    onRevalidate: resolve
+                });
+                expect(result).toEqual(getInitialTestDocument());
+            });
+
+            expect(revalidatedData).toEqual(alternativeTestDocument);
+            const cachedDoc = await fetchCacheDoc("validRequest");
+            expect(cachedDoc?.doc).toEqual(alternativeTestDocument);
+        });
+
+        it("Will wait for the fresh document if the stale one is older than the max stale time", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocWrapper(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true
+                }
+            });
+            await new Promise(resolve => setTimeout(resolve, 5));
+
+            const alternativeTestDocument = { ...changeTestDocument("test2") };
+            const onRevalidate = jest.fn();
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: 0
+                    },
+                    staleWhileRevalidate: {
+                        enabled: true,
+                        maxStale: 1
+                    }
+                },
+                onRevalidate
+            });
+
+            expect(result).toEqual(alternativeTestDocument);
+            expect(onRevalidate).not.toHaveBeenCalled();
+        });
+
+        it("Will report background refresh errors", async () => {
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("invalidRequest", {
+                fetchedAt: 0,
+                doc: getInitialTestDocument()
+            });
+
+            const error = await new Promise(async resolve => {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                const result = await getDocWrapper(null, "invalidRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        staleWhileRevalidate: {
+                            enabled: true
+                        }
+                    },
+                    cacheStore,
+                    onRevalidateError: resolve
+                });
+                expect(result).toEqual(getInitialTestDocument());
+            });
+
+            expect(error).toBeInstanceOf(RetryExhaustedError);
+            expect(error.cause).toEqual({
+                code: "test-error-code"
+            });
+        });
+    });
+
+    describe("Will fall back to the stale document if Firestore can't be reached", () => {
+        const staleEntry = () => ({
+            fetchedAt: Date.now() - 1000,
+            doc: getInitialTestDocument()
+        });
+
+        it("Will return the stale document and keep it in the cache", async () => {
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("unreachableRequest", staleEntry());
+            const onStaleFallback = jest.fn();
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "unreachableRequest", {
+                cacheOptions: {
+                    enabled: true,
+                    fallbackToStaleOnError: {
+                        enabled: true
+                    }
+                },
+                cacheStore,
+                onStaleFallback
+            });
+
+            expect(result).toEqual(getInitialTestDocument());
+            expect(onStaleFallback).toHaveBeenCalledWith(expect.any(RetryExhaustedError));
+            expect((await cacheStore.get("unreachableRequest"))?.doc).toEqual(getInitialTestDocument());
+        });
+
+        it("Will reject if Firestore could be reached but refused the request", async () => {
             expect.assertions(2);
-            // calling getDoc on 'validRequestAfterThreeRetries' only gives a valid request after three retries,
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("permissionDeniedRequest", staleEntry());
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "permissionDeniedRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        fallbackToStaleOnError: {
+                            enabled: true
+                        }
+                    },
+                    cacheStore
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.cause).toEqual({ code: "permission-denied" });
+            }
+        });
+
+        it("Will reject if Firestore could be reached but had no resources left", async () => {
+            expect.assertions(2);
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("resourceExhaustedRequest", staleEntry());
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "resourceExhaustedRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        fallbackToStaleOnError: {
+                            enabled: true
+                        }
+                    },
+                    cacheStore
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.cause).toEqual({ code: "resource-exhausted" });
+            }
+        });
+
+        it("Will reject but keep the stale document if the fallback is disabled", async () => {
+            expect.assertions(2);
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("invalidRequest", staleEntry());
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "invalidRequest", {
+                    cacheOptions: {
+                        enabled: true
+                    },
+                    cacheStore
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+            }
+            expect((await cacheStore.get("invalidRequest"))?.doc).toEqual(getInitialTestDocument());
+        });
+
+        it("Will reject if the stale document is older than the max age", async () => {
+            expect.assertions(1);
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("unreachableRequest", staleEntry());
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "unreachableRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        fallbackToStaleOnError: {
+                            enabled: true,
+                            maxAge: 500
+                        }
+                    },
+                    cacheStore
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+            }
+        });
+    });
+
+    describe("Will share concurrent requests for the same path", () => {
+        it("Will only request and store the document once", async () => {
+            const cacheStore = createMemoryStore();
+            const set = jest.spyOn(cacheStore, "set");
+            (getDoc as jest.Mock).mockClear();
+
+            const results = await Promise.all([1, 2, 3].map(() => {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                return getDocWrapper(null, "validRequest", {
+                    cacheOptions: {
+                        enabled: true
+                    },
+                    cacheStore
+                });
+            }));
+
+            expect(results).toEqual([testDocument, testDocument, testDocument]);
+            expect(getDoc).toHaveBeenCalledTimes(1);
+            expect(set).toHaveBeenCalledTimes(1);
+        });
+
+        it("Will not share requests that would store a different locked cache time", async () => {
+            (getDoc as jest.Mock).mockClear();
+
+            await Promise.all([1000, 2000].map(time => {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                return getDocWrapper(null, "validRequest", {
+                    cacheOptions: {
+                        enabled: true,
+                        cacheTime: {
+                            time,
+                            locked: true
+                        }
+                    }
+                });
+            }));
+
+            expect(getDoc).toHaveBeenCalledTimes(2);
+        });
+
+        it("Will start a new request once the previous one has settled", async () => {
+            (getDoc as jest.Mock).mockClear();
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocWrapper(null, "validRequest");
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocWrapper(null, "validRequest");
+
+            expect(getDoc).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("Will convert the document data", () => {
+        class TestDocument {
+            constructor(readonly testData: string) {}
+        }
+        const converter = {
+            toFirestore: (testDocument: TestDocument) => ({ testData: testDocument.testData }),
+            fromFirestore: snapshot => new TestDocument(snapshot.data().testData)
+        }
+
+        it("Will apply the converter to both fresh and cached documents", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const freshResult = await getDocWrapper(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true
+                },
+                converter
+            });
+
+            const cachedDoc = await fetchCacheDoc("validRequest");
+            expect(cachedDoc?.doc).toEqual(testDocument);
+            
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const cachedResult = await getDocWrapper(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: Number.POSITIVE_INFINITY
+                    }
+                },
+                converter
+            });
+
+            expect(freshResult).toBeInstanceOf(TestDocument);
+            expect(cachedResult).toBeInstanceOf(TestDocument);
+            expect(cachedResult).toEqual(freshResult);
+        });
+
+        it("Will run the validator after the converter", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "validRequest", {
+                converter,
+                validate: (data: TestDocument) => {
+                    expect(data).toBeInstanceOf(TestDocument);
+                    return data.testData;
+                }
+            });
+
+            expect(result).toBe("test");
+        });
+
+        it("Will reject if the validator throws", async () => {
+            expect.assertions(1);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "validRequest", {
+                    validate: () => {
+                        throw new Error("Invalid document");
+                    }
+                });
+            } catch (err) {
+                expect(err.message).toBe("Invalid document");
+            }
+        });
+
+        it("Will not convert non-existent documents", async () => {
+            const fromFirestore = jest.fn();
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "nonExistentDoc", {
+                converter: { toFirestore: data => data, fromFirestore }
+            });
+
+            expect(result).toBeUndefined();
+            expect(fromFirestore).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Will retry if the Firestore request fails", () => {
+        it("Will not retry more than the maximum specified number of times", async () => {
+            expect.assertions(3);
+            // calling getDoc on 'unavailableAfterThreeRetries' only gives a valid request after three retries,
             // so by setting the maxRetries to 2, the request should fail
             try {
                 // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
-                await getDocWrapper(null, "validRequestAfterThreeRetries", {
+                await getDocWrapper(null, "unavailableAfterThreeRetries", {
                     retryOptions: {
                         enabled: true,
                         maxRetries: 2
                     }
                 });
             } catch (err) {
-                expect(err).toEqual({
-                    code: "test-error-code"
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.cause).toEqual({
+                    code: "unavailable"
                 });
             }
             cleanUpGetDocMock();
-            // calling getDoc on 'validRequestAfterThreeRetries' only gives a valid request after three retries,
+            // calling getDoc on 'unavailableAfterThreeRetries' only gives a valid request after three retries,
             // so by setting the maxRetries to 3, the request should succeed
             // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
-            const result = await getDocWrapper(null, "validRequestAfterThreeRetries", {
+            const result = await getDocWrapper(null, "unavailableAfterThreeRetries", {
                 retryOptions: {
                     enabled: true,
                     maxRetries: 3
@@ -321,8 +683,98 @@ describe("getDocWrapper", () => {
             expect(result).toEqual(testDocument);
         });
 
+        it("Will only retry on the default error codes with error code list not set", async () => {
+            expect.assertions(3);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "validRequestAfterThreeRetries", {
+                    retryOptions: {
+                        enabled: true,
+                        maxRetries: 3
+                    }
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(NonRetryableError);
+                expect(err.message).toBe("Firestore threw an error but its code was not in the list of error codes to retry on");
+                expect(err.cause).toEqual({
+                    code: "test-error-code"
+                });
+            }
+        });
+
+        it("Will accept error codes in either spelling", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "unavailableAfterThreeRetries", {
+                retryOptions: {
+                    enabled: true,
+                    retryOnErrorCode: ["UNAVAILABLE"]
+                }
+            });
+            expect(result).toEqual(testDocument);
+        });
+
+        it("Will not retry if the maximum number of retries is 0", async () => {
+            expect.assertions(2);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "unavailableAfterThreeRetries", {
+                    retryOptions: {
+                        enabled: true,
+                        maxRetries: 0
+                    }
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.cause).toEqual({
+                    code: "unavailable"
+                });
+            }
+        });
+
+        describe("Will wait between retries according to the backoff strategy", () => {
+            async function getRetryDelays(backoff) {
+                const delays: number[] = [];
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "unavailableAfterThreeRetries", {
+                    retryOptions: {
+                        enabled: true,
+                        retryDelay: 2,
+                        backoff,
+                        onRetry: (attempt, error, delay) => {
+                            expect(error).toEqual({ code: "unavailable" });
+                            delays[attempt - 1] = delay;
+                        }
+                    }
+                });
+                return delays;
+            }
+
+            it("Will use the same delay with the fixed strategy", async () => {
+                expect(await getRetryDelays({ strategy: "fixed" })).toEqual([2, 2]);
+            });
+
+            it("Will increase the delay linearly with the linear strategy", async () => {
+                expect(await getRetryDelays({ strategy: "linear" })).toEqual([2, 4]);
+            });
+
+            it("Will double the delay with the exponential strategy up to the max delay", async () => {
+                expect(await getRetryDelays({ strategy: "exponential" })).toEqual([2, 4]);
+                expect(await getRetryDelays({ strategy: "exponential", maxDelay: 3 })).toEqual([2, 3]);
+            });
+
+            it("Will randomize the delay with jitter", async () => {
+                const random = jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+                expect(await getRetryDelays({ strategy: "linear", jitter: "full" })).toEqual([1, 2]);
+                expect(await getRetryDelays({ strategy: "linear", jitter: "equal" })).toEqual([1.5, 3]);
+                random.mockRestore();
+            });
+        });
+
         it("Will not retry if the error code is not in the list of error codes to retry on", async () => {
-            expect.assertions(1);
+            expect.assertions(2);
             
             try {
                 // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
@@ -335,6 +787,7 @@ describe("getDocWrapper", () => {
                     }
                 });
             } catch (err) {
+                expect(err).toBeInstanceOf(NonRetryableError);
                 expect(err.message).toBe("Firestore threw an error but its code was not in the list of error codes to retry on");
             }
         });
@@ -354,7 +807,7 @@ describe("getDocWrapper", () => {
         });
 
         it("Will not retry if retrying is disabled or not set", async () => {
-            expect.assertions(1);
+            expect.assertions(2);
             
             try {
                 // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
@@ -365,7 +818,8 @@ describe("getDocWrapper", () => {
                     }
                 });
             } catch (err) {
-                expect(err).toEqual({
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.cause).toEqual({
                     code: "test-error-code"
                 });
             }
@@ -373,4 +827,300 @@ describe("getDocWrapper", () => {
 
         it.todo("Will retry after the specified delay");
     });
+
+    describe("Will throw structured errors", () => {
+        it("Will include the path, number of attempts and elapsed time", async () => {
+            expect.assertions(4);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "invalidRequest", {
+                    retryOptions: {
+                        enabled: true,
+                        maxRetries: 2,
+                        retryOnErrorCode: ["test-error-code"]
+                    }
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(RetryExhaustedError);
+                expect(err.path).toBe("invalidRequest");
+                expect(err.attempts).toBe(2);
+                expect(err.elapsedTime).toBeGreaterThanOrEqual(0);
+            }
+        });
+
+        it("Will tell cache read errors apart from Firestore errors", async () => {
+            expect.assertions(2);
+            const cacheStore = createMemoryStore();
+            const cause = new Error("Corrupted cache");
+            cacheStore.get = () => Promise.reject(cause);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "validRequest", { cacheStore });
+            } catch (err) {
+                expect(err).toBeInstanceOf(CacheReadError);
+                expect(err.cause).toBe(cause);
+            }
+        });
+
+        it("Will tell cache write errors apart from Firestore errors", async () => {
+            expect.assertions(2);
+            const cacheStore = createMemoryStore();
+            cacheStore.set = () => Promise.reject(new Error("Quota exceeded"));
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "validRequest", {
+                    cacheOptions: {
+                        enabled: true
+                    },
+                    cacheStore
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(CacheWriteError);
+                expect(err.path).toBe("validRequest");
+            }
+        });
+    });
+
+    describe("Will cancel the request", () => {
+        it("Will stop retrying and reject with an AbortError when the signal is aborted", async () => {
+            expect.assertions(3);
+            const controller = new AbortController();
+            (getDoc as jest.Mock).mockClear();
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "unavailableAfterThreeRetries", {
+                    retryOptions: {
+                        enabled: true,
+                        retryDelay: 1000,
+                        onRetry: () => controller.abort("unmounted")
+                    },
+                    signal: controller.signal
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(AbortError);
+                expect(err.cause).toBe("unmounted");
+            }
+            expect(getDoc).toHaveBeenCalledTimes(1);
+        });
+
+        it("Will reject right away if the signal was already aborted", async () => {
+            expect.assertions(1);
+            const controller = new AbortController();
+            controller.abort();
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "validRequest", { signal: controller.signal });
+            } catch (err) {
+                expect(err).toBeInstanceOf(AbortError);
+            }
+        });
+
+        it("Will reject with a TimeoutError and not store the late result in the cache", async () => {
+            expect.assertions(2);
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "slowRequest", {
+                    cacheOptions: {
+                        enabled: true
+                    },
+                    timeoutMs: 5
+                });
+            } catch (err) {
+                expect(err).toBeInstanceOf(TimeoutError);
+            }
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(await fetchCacheDoc("slowRequest")).toBeUndefined();
+        });
+
+        it("Will resolve normally if the request finishes in time", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const result = await getDocWrapper(null, "slowRequest", {
+                cacheOptions: {
+                    enabled: true
+                },
+                timeoutMs: 1000
+            });
+
+            expect(result).toEqual(testDocument);
+            expect((await fetchCacheDoc("slowRequest"))?.doc).toEqual(testDocument);
+        });
+    });
+
+    describe("Will return the document details", () => {
+        it("Will tell whether the document came from the server or the cache", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const serverDetails = await getDocWrapperDetailed(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true,
+                    cacheTime: {
+                        time: Number.POSITIVE_INFINITY,
+                        locked: true
+                    }
+                }
+            });
+
+            expect(serverDetails).toMatchObject({
+                data: testDocument,
+                exists: true,
+                source: "server",
+                stale: false,
+                retries: 0,
+                lockedCacheTime: Number.POSITIVE_INFINITY
+            });
+
+            await new Promise(resolve => setTimeout(resolve, 5));
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const cacheDetails = await getDocWrapperDetailed(null, "validRequest", {
+                cacheOptions: {
+                    enabled: true
+                }
+            });
+
+            expect(cacheDetails).toMatchObject({
+                data: testDocument,
+                source: "cache",
+                stale: false,
+                fetchedAt: serverDetails.fetchedAt
+            });
+            expect(cacheDetails.ageMs).toBeGreaterThanOrEqual(5);
+        });
+
+        it("Will tell how many retries it took", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "unavailableAfterThreeRetries", {
+                retryOptions: {
+                    enabled: true
+                }
+            });
+
+            expect(details.retries).toBe(2);
+        });
+
+        it("Will flag documents served after a failed request as stale", async () => {
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("unreachableRequest", {
+                fetchedAt: 0,
+                doc: getInitialTestDocument()
+            });
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "unreachableRequest", {
+                cacheOptions: {
+                    enabled: true,
+                    fallbackToStaleOnError: {
+                        enabled: true
+                    }
+                },
+                cacheStore
+            });
+
+            expect(details).toMatchObject({
+                data: getInitialTestDocument(),
+                source: "cache",
+                stale: true,
+                fetchedAt: 0
+            });
+        });
+
+        it("Will not cache documents Firestore served from its offline cache", async () => {
+            const cacheStore = createMemoryStore();
+            const cachedEntry = {
+                fetchedAt: 0,
+                doc: { testData: "cached" }
+            }
+            await cacheStore.set("offlineRequest", cachedEntry);
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "offlineRequest", {
+                cacheOptions: {
+                    enabled: true
+                },
+                cacheStore
+            });
+
+            expect(details).toMatchObject({
+                data: testDocument,
+                source: "cache"
+            });
+            expect(await cacheStore.get("offlineRequest")).toEqual(cachedEntry);
+        });
+
+        it("Will tell non-existent documents apart", async () => {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "nonExistentDoc");
+
+            expect(details.exists).toBe(false);
+            expect(details.data).toBeUndefined();
+        });
+    });
+
+    describe("Will tell missing documents apart from cache misses", () => {
+        const missingCacheOptions = (missingDocTime?: number) => ({
+            enabled: true,
+            cacheTime: {
+                time: 60000
+            },
+            missingDocTime
+        });
+
+        it("Will cache missing documents as missing", async () => {
+            const cacheStore = createMemoryStore();
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocWrapper(null, "nonExistentDoc", { cacheOptions: missingCacheOptions(), cacheStore });
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "nonExistentDoc", { cacheOptions: missingCacheOptions(), cacheStore });
+
+            expect((await cacheStore.get("nonExistentDoc")).exists).toBe(false);
+            expect(details.source).toBe("cache");
+            expect(details.exists).toBe(false);
+        });
+
+        it("Will check missing documents against their own cache time", async () => {
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("nonExistentDoc", { fetchedAt: Date.now() - 10000, exists: false, doc: undefined });
+            await cacheStore.set("validRequest", { fetchedAt: Date.now() - 10000, exists: true, doc: getInitialTestDocument() });
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const missingDetails = await getDocWrapperDetailed(null, "nonExistentDoc", { cacheOptions: missingCacheOptions(5000), cacheStore });
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const existingDetails = await getDocWrapperDetailed(null, "validRequest", { cacheOptions: missingCacheOptions(5000), cacheStore });
+
+            expect(missingDetails.source).toBe("server");
+            expect(existingDetails.source).toBe("cache");
+        });
+
+        it("Will treat old entries without a document as missing", async () => {
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("nonExistentDoc", { fetchedAt: Date.now() - 10000, doc: undefined });
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            const details = await getDocWrapperDetailed(null, "nonExistentDoc", { cacheOptions: missingCacheOptions(5000), cacheStore });
+
+            expect(details.source).toBe("server");
+        });
+
+        it("Will throw a DocumentNotFoundError if asked to", async () => {
+            expect.assertions(3);
+            const cacheStore = createMemoryStore();
+            await cacheStore.set("nonExistentDoc", { fetchedAt: Date.now(), exists: false, doc: undefined });
+
+            try {
+                // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+                await getDocWrapper(null, "nonExistentDoc", { cacheOptions: missingCacheOptions(), cacheStore, throwIfMissing: true });
+            } catch (err) {
+                expect(err).toBeInstanceOf(DocumentNotFoundError);
+                expect(err.path).toBe("nonExistentDoc");
+            }
+
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            expect(await getDocWrapper(null, "validRequest", { throwIfMissing: true })).toEqual(getInitialTestDocument());
+        });
+    });
 });
\ No newline at end of file
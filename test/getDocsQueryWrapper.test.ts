@@ -0,0 +1,191 @@
+import { initializeApp } from "firebase/app";
+import { collection, getDocs, getFirestore, limit, orderBy, query, queryEqual, where } from "firebase/firestore";
+import { createMemoryStore, DocWrapperError, getDocsQueryWrapper, getQueryCacheKey, peekCache, RetryExhaustedError } from "../src/index";
+import { CacheStore, QuerySpec } from "../src/types";
+
+const mockQueryResult = {
+    failuresLeft: 0,
+    docs: [
+        { id: "a", data: { testData: "test" } },
+        { id: "b", data: { testData: "test2" } }
+    ]
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        getDocs: jest.fn(async () => {
+            if (mockQueryResult.failuresLeft > 0) {
+                mockQueryResult.failuresLeft--;
+                throw { code: "unavailable" };
+            }
+            return {
+                docs: mockQueryResult.docs.map(doc => ({
+                    id: doc.id,
+                    ref: { path: `users/${doc.id}` },
+                    data: () => doc.data
+                })),
+                metadata: { fromCache: false }
+            }
+        })
+    }
+});
+
+const db = getFirestore(initializeApp({ projectId: "demo-test" }));
+const usersQuery = () => query(collection(db, "users"), where("age", ">=", 18), orderBy("age"), limit(10));
+const cacheKey = "adultUsers";
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    mockQueryResult.failuresLeft = 0;
+    (getDocs as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("getQueryCacheKey", () => {
+    it("Will derive a collection's key from its path", () => {
+        expect(getQueryCacheKey(collection(db, "users"))).toBe("query:users");
+        expect(getQueryCacheKey(collection(db, "users/abc/posts"))).toBe("query:users/abc/posts");
+    });
+
+    it("Will derive the same key for equal query specs", () => {
+        const adultUsers = (): QuerySpec => ({
+            collection: collection(db, "users"),
+            where: [["age", ">=", 18]],
+            orderBy: [["age"]],
+            limit: 10
+        });
+        const sameUsers: QuerySpec = { limit: 10, orderBy: [["age"]], where: [["age", ">=", 18]], collection: collection(db, "users") };
+
+        expect(getQueryCacheKey(adultUsers())).toBe(getQueryCacheKey(adultUsers()));
+        expect(getQueryCacheKey(sameUsers)).toBe(getQueryCacheKey(adultUsers()));
+        expect(getQueryCacheKey({ collection: collection(db, "users") })).toBe("query:users");
+    });
+
+    it("Will derive different keys for different query specs", () => {
+        const key = getQueryCacheKey({ collection: collection(db, "users"), where: [["age", ">=", 18]] });
+
+        expect(getQueryCacheKey({ collection: collection(db, "users"), where: [["age", ">=", 21]] })).not.toBe(key);
+        expect(getQueryCacheKey({ collection: collection(db, "admins"), where: [["age", ">=", 18]] })).not.toBe(key);
+        expect(getQueryCacheKey({ collection: collection(db, "users"), where: [["age", ">=", 18]], limit: 1 })).not.toBe(key);
+    });
+
+    it("Will throw for queries with constraints", () => {
+        expect(() => getQueryCacheKey(usersQuery())).toThrow(DocWrapperError);
+    });
+});
+
+describe("getDocsQueryWrapper", () => {
+    it("Will cache the result set and use it while it's fresh", async () => {
+        const options = {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: Number.POSITIVE_INFINITY
+                }
+            },
+            cacheKey,
+            cacheStore
+        }
+
+        const freshResult = await getDocsQueryWrapper(usersQuery(), options);
+        const cachedResult = await getDocsQueryWrapper(usersQuery(), options);
+
+        expect(freshResult).toEqual([
+            { id: "a", path: "users/a", data: { testData: "test" } },
+            { id: "b", path: "users/b", data: { testData: "test2" } }
+        ]);
+        expect(cachedResult).toEqual(freshResult);
+        expect(getDocs).toHaveBeenCalledTimes(1);
+        expect((await peekCache(cacheKey, { cacheStore, db }))?.doc.docs).toHaveLength(2);
+    });
+
+    it("Will respect the locked cache time", async () => {
+        await getDocsQueryWrapper(usersQuery(), {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: Number.POSITIVE_INFINITY,
+                    locked: true
+                }
+            },
+            cacheKey,
+            cacheStore
+        });
+        await getDocsQueryWrapper(usersQuery(), {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: 0
+                }
+            },
+            cacheKey,
+            cacheStore
+        });
+
+        expect(getDocs).toHaveBeenCalledTimes(1);
+    });
+
+    it("Will cache a whole collection under a key derived from its path", async () => {
+        await getDocsQueryWrapper(collection(db, "users"), {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        });
+
+        expect(await peekCache("query:users", { cacheStore, db })).toBeDefined();
+    });
+
+    it("Will run a query spec and cache it under its derived key", async () => {
+        const spec: QuerySpec = { collection: collection(db, "users"), where: [["age", ">=", 18]], orderBy: [["age"]], limit: 10 };
+
+        const result = await getDocsQueryWrapper(spec, {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        });
+
+        expect(result).toHaveLength(2);
+        expect(getDocs).toHaveBeenCalledWith(expect.objectContaining({ type: "query" }));
+        expect(queryEqual((getDocs as jest.Mock).mock.calls[0][0], usersQuery().withConverter(null))).toBe(true);
+        expect(await peekCache(getQueryCacheKey(spec), { cacheStore, db })).toBeDefined();
+    });
+
+    it("Will reject a query with constraints without a cacheKey", async () => {
+        await expect(getDocsQueryWrapper(usersQuery(), { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        expect(getDocs).not.toHaveBeenCalled();
+    });
+
+    it("Will retry the query", async () => {
+        mockQueryResult.failuresLeft = 2;
+
+        const result = await getDocsQueryWrapper(usersQuery(), {
+            cacheKey,
+            retryOptions: {
+                enabled: true,
+                maxRetries: 3
+            },
+            cacheStore
+        });
+
+        expect(result).toHaveLength(2);
+        expect(getDocs).toHaveBeenCalledTimes(3);
+    });
+
+    it("Will reject once there are no retries left", async () => {
+        expect.assertions(1);
+        mockQueryResult.failuresLeft = 2;
+
+        try {
+            await getDocsQueryWrapper(usersQuery(), { cacheKey, cacheStore });
+        } catch (err) {
+            expect(err).toBeInstanceOf(RetryExhaustedError);
+        }
+    });
+});
@@ -0,0 +1,233 @@
+import { getDoc } from "firebase/firestore";
+import getDocWrapper, { AbortError, getDocsWrapper, createMemoryStore, DocumentNotFoundError, RetryExhaustedError } from "../src/index";
+import { CacheStore } from "../src/types";
+
+const createDoc = (data: { [key: string]: any } | undefined) => ({ data() { return data }, metadata: { fromCache: false } });
+const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const requestCounter = {
+    current: 0,
+    max: 0
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(async (path: string) => {
+            requestCounter.current++;
+            requestCounter.max = Math.max(requestCounter.max, requestCounter.current);
+            await timeout(5);
+            requestCounter.current--;
+
+            if (path.startsWith("invalidRequest")) {
+                throw { code: "test-error-code" };
+            }
+            if (path.startsWith("unreachableRequest")) {
+                throw { code: "unavailable" };
+            }
+            if (path.startsWith("missing")) {
+                return createDoc(undefined);
+            }
+            return createDoc({ path });
+        })
+    }
+});
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    requestCounter.current = 0;
+    requestCounter.max = 0;
+    (getDoc as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("getDocsWrapper", () => {
+    it("Will return the results keyed by path with per-path errors", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, ["docs/a", "invalidRequest", "docs/b"], {
+            cacheStore
+        });
+
+        expect(results["docs/a"]).toEqual({ data: { path: "docs/a" } });
+        expect(results["docs/b"]).toEqual({ data: { path: "docs/b" } });
+        expect(results["invalidRequest"].error).toBeInstanceOf(RetryExhaustedError);
+        expect(results["invalidRequest"].error.cause).toEqual({ code: "test-error-code" });
+    });
+
+    it("Will only request the documents that are not in the cache and store them all at once", async () => {
+        const setMany = jest.spyOn(cacheStore, "setMany");
+        const getMany = jest.spyOn(cacheStore, "getMany");
+
+        await cacheStore.set("docs/a", {
+            fetchedAt: Date.now(),
+            doc: { path: "cached" }
+        });
+        const get = jest.spyOn(cacheStore, "get");
+        const set = jest.spyOn(cacheStore, "set");
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, ["docs/a", "docs/b", "docs/c"], {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: Number.POSITIVE_INFINITY
+                }
+            },
+            cacheStore
+        });
+
+        expect(results["docs/a"]).toEqual({ data: { path: "cached" } });
+        expect(getDoc).toHaveBeenCalledTimes(2);
+        expect(getMany).toHaveBeenCalledTimes(1);
+        expect(setMany).toHaveBeenCalledTimes(1);
+        expect(get).not.toHaveBeenCalled();
+        expect(set).not.toHaveBeenCalled();
+        expect((await cacheStore.get("docs/c"))?.doc).toEqual({ path: "docs/c" });
+    });
+
+    it("Will not request more documents at a time than the concurrency limit", async () => {
+        const paths = Array.from({ length: 10 }, (_, index) => `docs/${index}`);
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, paths, {
+            concurrency: 3,
+            cacheStore
+        });
+
+        expect(Object.keys(results)).toHaveLength(10);
+        expect(getDoc).toHaveBeenCalledTimes(10);
+        expect(requestCounter.max).toBe(3);
+    });
+
+    it("Will only request duplicated paths once", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocsWrapper(null, ["docs/a", "docs/a"], {
+            cacheStore
+        });
+
+        expect(getDoc).toHaveBeenCalledTimes(1);
+    });
+
+    it("Will share pending requests with getDocWrapper", async () => {
+        const options = {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        }
+
+        const [result, results] = await Promise.all([
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocWrapper(null, "docs/a", options),
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            getDocsWrapper(null, ["docs/a", "docs/b"], options)
+        ]);
+
+        expect(result).toEqual({ path: "docs/a" });
+        expect(results["docs/a"]).toEqual({ data: { path: "docs/a" } });
+        expect(getDoc).toHaveBeenCalledTimes(2);
+    });
+
+    it("Will refresh the documents under the store's lock", async () => {
+        const lock = jest.fn((key: string, task: () => Promise<any>) => task());
+        cacheStore.lock = lock;
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocsWrapper(null, ["docs/a", "docs/b"], {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        });
+
+        expect(lock.mock.calls.map(([key]) => key).sort()).toEqual(["docs/a", "docs/b"]);
+    });
+
+    it("Will return stale documents right away and revalidate them in the background", async () => {
+        await cacheStore.set("docs/a", {
+            fetchedAt: Date.now() - 2000,
+            doc: { path: "stale" }
+        });
+        const onRevalidate = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, ["docs/a"], {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: 1000
+                },
+                staleWhileRevalidate: {
+                    enabled: true
+                }
+            },
+            onRevalidate,
+            cacheStore
+        });
+        expect(results["docs/a"]).toEqual({ data: { path: "stale" } });
+
+        await timeout(20);
+        expect(onRevalidate).toHaveBeenCalledWith("docs/a", { path: "docs/a" });
+        expect((await cacheStore.get("docs/a"))?.doc).toEqual({ path: "docs/a" });
+    });
+
+    it("Will fall back to stale documents for the paths that couldn't be fetched", async () => {
+        await cacheStore.set("unreachableRequest", {
+            fetchedAt: 0,
+            doc: { path: "stale" }
+        });
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, ["docs/a", "unreachableRequest"], {
+            cacheOptions: {
+                enabled: true,
+                fallbackToStaleOnError: {
+                    enabled: true
+                }
+            },
+            cacheStore
+        });
+
+        expect(results["docs/a"]).toEqual({ data: { path: "docs/a" } });
+        expect(results["unreachableRequest"]).toEqual({ data: { path: "stale" } });
+    });
+
+    it("Will not store the documents fetched before the batch was cancelled", async () => {
+        expect.assertions(2);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 8);
+
+        try {
+            // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+            await getDocsWrapper(null, ["docs/a", "docs/b", "docs/c"], {
+                cacheOptions: {
+                    enabled: true
+                },
+                concurrency: 1,
+                signal: controller.signal,
+                cacheStore
+            });
+        } catch (err) {
+            expect(err).toBeInstanceOf(AbortError);
+        }
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will give missing documents an error if asked to", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const results = await getDocsWrapper(null, ["docs/a", "missing/b"], {
+            cacheStore,
+            throwIfMissing: true
+        });
+
+        expect(results["docs/a"]).toEqual({ data: { path: "docs/a" } });
+        expect(results["missing/b"].error).toBeInstanceOf(DocumentNotFoundError);
+    });
+});
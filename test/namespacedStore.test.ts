@@ -0,0 +1,137 @@
+import { initializeApp } from "firebase/app";
+import { getDoc, getFirestore, initializeFirestore } from "firebase/firestore";
+import getDocWrapper, { clearCache, clearNamespace, createDocWrapper, createMemoryStore, createNamespacedStore, DocWrapperError, exportCache, getCacheNamespace, getStats, invalidateDoc, invalidatePrefix, peekCache, setLockedCacheTime, unlockCacheTime } from "../src/index";
+import { CacheStore } from "../src/types";
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        getDoc: jest.fn(async (ref: { path: string }) => ({ data() { return { path: ref.path } }, metadata: { fromCache: false } }))
+    }
+});
+
+const devDb = getFirestore(initializeApp({ projectId: "demo-dev" }, "dev"));
+const prodDb = getFirestore(initializeApp({ projectId: "demo-prod" }, "prod"));
+const archiveDb = initializeFirestore(initializeApp({ projectId: "demo-prod" }, "archive"), {}, "archive");
+
+const cacheOptions = {
+    enabled: true,
+    cacheTime: {
+        time: Number.POSITIVE_INFINITY
+    }
+}
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    (getDoc as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("createNamespacedStore", () => {
+    it("Will only list and clear the entries in its namespace", async () => {
+        const firstStore = createNamespacedStore(cacheStore, "first");
+        const secondStore = createNamespacedStore(cacheStore, "second");
+        const entry = { fetchedAt: Date.now(), doc: { testData: "test" } };
+
+        await firstStore.set("docs/a", entry);
+        await secondStore.set("docs/a", entry);
+        expect(await firstStore.keys()).toEqual(["docs/a"]);
+        expect(await firstStore.getMany(["docs/a", "docs/b"])).toEqual([entry, undefined]);
+
+        await firstStore.clear();
+        expect(await firstStore.get("docs/a")).toBeUndefined();
+        expect(await secondStore.get("docs/a")).toEqual(entry);
+    });
+});
+
+describe("Namespaced cache", () => {
+    it("Will name the namespace after the project, the database and the namespace key", () => {
+        expect(getCacheNamespace(devDb)).toBe("demo-dev/(default)");
+        expect(getCacheNamespace(devDb, "user-abc")).toBe("demo-dev/(default)/user-abc");
+        expect(getCacheNamespace(archiveDb)).toBe("demo-prod/archive");
+    });
+
+    it("Will keep the documents of each project apart by default", async () => {
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore });
+        await getDocWrapper(prodDb, "docs/a", { cacheOptions, cacheStore });
+
+        expect(getDoc).toHaveBeenCalledTimes(2);
+        expect((await cacheStore.keys()).sort()).toEqual(["demo-dev/(default):docs/a", "demo-prod/(default):docs/a"]);
+    });
+
+    it("Will share the documents of every project if the namespace is turned off", async () => {
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore, namespace: false });
+        await getDocWrapper(prodDb, "docs/a", { cacheOptions, cacheStore, namespace: false });
+
+        expect(getDoc).toHaveBeenCalledTimes(1);
+        expect(await cacheStore.keys()).toEqual(["docs/a"]);
+    });
+
+    it("Will keep the documents of each user apart and wipe them on sign-out", async () => {
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore, namespace: "user-abc" });
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore, namespace: "user-def" });
+        expect(getDoc).toHaveBeenCalledTimes(2);
+
+        await clearNamespace(devDb, "user-abc", { cacheStore });
+        expect(await cacheStore.keys()).toEqual(["demo-dev/(default)/user-def:docs/a"]);
+    });
+
+    it("Will manage the documents of a namespace", async () => {
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore, namespace: "user-abc" });
+        expect(await peekCache("docs/a", { cacheStore, db: devDb, namespace: "user-abc" })).toBeDefined();
+        expect(await peekCache("docs/a", { cacheStore, db: devDb })).toBeUndefined();
+
+        await invalidateDoc("docs/a", { cacheStore, db: devDb, namespace: "user-abc" });
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will manage the documents read with the same db", async () => {
+        await getDocWrapper(devDb, "users/abc", { cacheOptions, cacheStore });
+        await getDocWrapper(devDb, "users/def", { cacheOptions, cacheStore });
+
+        expect(await peekCache("users/abc", { cacheStore, db: devDb })).toBeDefined();
+        expect(await setLockedCacheTime("users/abc", 5000, { cacheStore, db: devDb })).toBe(true);
+        expect(await unlockCacheTime("users/abc", { cacheStore, db: devDb })).toBe(true);
+        expect(Object.keys((await exportCache({ cacheStore, db: devDb })).entries).sort()).toEqual(["users/abc", "users/def"]);
+        expect(getStats({ cacheStore, db: devDb }).misses).toBe(2);
+
+        await invalidateDoc("users/abc", { cacheStore, db: devDb });
+        expect(await invalidatePrefix("users/", { cacheStore, db: devDb })).toBe(1);
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will reject managing the cache without the db the documents were read with", async () => {
+        await getDocWrapper(devDb, "users/abc", { cacheOptions, cacheStore });
+
+        await expect(invalidateDoc("users/abc", { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(invalidatePrefix("users/", { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(peekCache("users/abc", { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(setLockedCacheTime("users/abc", 5000, { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(unlockCacheTime("users/abc", { cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        await expect(exportCache({ cacheStore })).rejects.toBeInstanceOf(DocWrapperError);
+        expect(() => getStats({ cacheStore })).toThrow(DocWrapperError);
+        expect(await cacheStore.keys()).toEqual(["demo-dev/(default):users/abc"]);
+    });
+
+    it("Will clear every project's documents without a db", async () => {
+        await getDocWrapper(devDb, "docs/a", { cacheOptions, cacheStore });
+        await getDocWrapper(prodDb, "docs/a", { cacheOptions, cacheStore });
+
+        await clearCache({ cacheStore, db: devDb });
+        expect(await cacheStore.keys()).toEqual(["demo-prod/(default):docs/a"]);
+
+        await clearCache({ cacheStore });
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will scope the cache of a client to its project", async () => {
+        const client = createDocWrapper(prodDb, { defaults: { cacheOptions, cacheStore }, namespace: "user-abc" });
+
+        await client.get("docs/a");
+        expect(await cacheStore.keys()).toEqual(["demo-prod/(default)/user-abc:docs/a"]);
+    });
+});
@@ -0,0 +1,121 @@
+import getDocWrapper, { createMemoryStore, getDocsWrapper, getStats, resetStats } from "../src/index";
+import { CacheStore, Hooks } from "../src/types";
+
+const mockRequests = {
+    failuresLeft: 0
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        getDoc: jest.fn(async (path: string) => {
+            if (path === "invalidRequest") {
+                throw { code: "permission-denied" };
+            }
+            if (mockRequests.failuresLeft > 0) {
+                mockRequests.failuresLeft--;
+                throw { code: "unavailable" };
+            }
+            return { data: () => path === "missingDoc" ? undefined : { path }, metadata: { fromCache: false } };
+        })
+    }
+});
+
+let cacheStore: CacheStore;
+let hooks: { [hook in keyof Hooks]-?: jest.Mock };
+
+const cacheOptions = (time = 60000, locked = false) => ({
+    enabled: true,
+    cacheTime: {
+        time,
+        locked
+    }
+});
+
+beforeEach(() => {
+    mockRequests.failuresLeft = 0;
+    cacheStore = createMemoryStore();
+    hooks = {
+        onCacheHit: jest.fn(),
+        onCacheMiss: jest.fn(),
+        onFetch: jest.fn(),
+        onRetry: jest.fn(),
+        onError: jest.fn()
+    }
+});
+
+describe("Hooks", () => {
+    it("Will tell cache misses and hits apart with their reason", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: cacheOptions(), hooks });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: cacheOptions(), hooks });
+
+        expect(hooks.onCacheMiss).toHaveBeenCalledWith({ path: "docs/a", reason: "not cached" });
+        expect(hooks.onFetch).toHaveBeenCalledTimes(1);
+        expect(hooks.onFetch).toHaveBeenCalledWith(expect.objectContaining({ path: "docs/a", exists: true, retries: 0 }));
+        expect(hooks.onCacheHit).toHaveBeenCalledWith(expect.objectContaining({ path: "docs/a", reason: "one-time valid", stale: false }));
+        expect(hooks.onCacheHit.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("Will tell locked cache times from one-time ones", async () => {
+        await cacheStore.set("docs/a", { fetchedAt: Date.now() - 5000, persistentCacheTime: 60000, doc: { path: "docs/a" } });
+        await cacheStore.set("docs/b", { fetchedAt: Date.now() - 5000, doc: { path: "docs/b" } });
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: cacheOptions(1000), hooks });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/b", { cacheStore, cacheOptions: cacheOptions(1000), hooks });
+
+        expect(hooks.onCacheHit).toHaveBeenCalledWith(expect.objectContaining({ path: "docs/a", reason: "locked time valid" }));
+        expect(hooks.onCacheMiss).toHaveBeenCalledWith({ path: "docs/b", reason: "one-time stale" });
+    });
+
+    it("Will tell about retries and errors", async () => {
+        mockRequests.failuresLeft = 1;
+        const retryOptions = { enabled: true, maxRetries: 3, retryDelay: 1 };
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, retryOptions, hooks });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await expect(getDocWrapper(null, "invalidRequest", { cacheStore, retryOptions, hooks })).rejects.toBeDefined();
+
+        expect(hooks.onRetry).toHaveBeenCalledWith(expect.objectContaining({ path: "docs/a", attempt: 1, delay: 1 }));
+        expect(hooks.onFetch).toHaveBeenCalledWith(expect.objectContaining({ path: "docs/a", retries: 1 }));
+        expect(hooks.onError).toHaveBeenCalledWith(expect.objectContaining({ path: "invalidRequest" }));
+        expect(hooks.onCacheMiss).toHaveBeenCalledWith({ path: "invalidRequest", reason: "not cached" });
+    });
+
+    it("Will ignore hooks that throw", async () => {
+        const throwingHooks = { onCacheMiss: () => { throw new Error("Broken hook"); } };
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        expect(await getDocWrapper(null, "docs/a", { cacheStore, hooks: throwingHooks })).toEqual({ path: "docs/a" });
+    });
+});
+
+describe("getStats", () => {
+    it("Will count the hits, misses, requests, retries and errors of each store", async () => {
+        mockRequests.failuresLeft = 1;
+        const retryOptions = { enabled: true, maxRetries: 3, retryDelay: 1 };
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: cacheOptions(), retryOptions });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocWrapper(null, "docs/a", { cacheStore, cacheOptions: cacheOptions() });
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        await getDocsWrapper(null, ["docs/a", "docs/b", "invalidRequest"], { cacheStore, cacheOptions: cacheOptions() });
+
+        expect(getStats({ cacheStore, namespace: false })).toEqual({ hits: 2, staleHits: 0, misses: 3, fetches: 2, retries: 1, errors: 1 });
+        expect(getStats({ cacheStore: createMemoryStore(), namespace: false }).hits).toBe(0);
+
+        resetStats({ cacheStore, namespace: false });
+        expect(getStats({ cacheStore, namespace: false }).hits).toBe(0);
+    });
+});
@@ -0,0 +1,152 @@
+import { onSnapshot } from "firebase/firestore";
+import { createMemoryStore, subscribeDocWrapper } from "../src/index";
+import { CacheStore } from "../src/types";
+
+type LooseObject = {
+    [key: string]: any
+}
+const createDoc = (data: LooseObject | undefined, fromCache = false) => ({ data() { return data }, metadata: { fromCache } });
+const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const mockListeners = new Map<string, {
+    next: (snapshot: ReturnType<typeof createDoc>) => void,
+    error: (err: any) => void,
+    unsubscribe: jest.Mock
+}>();
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        onSnapshot: jest.fn((path: string, next, error) => {
+            const unsubscribe = jest.fn();
+            mockListeners.set(path, { next, error, unsubscribe });
+            return unsubscribe;
+        })
+    }
+});
+
+let cacheStore: CacheStore;
+
+beforeEach(() => {
+    mockListeners.clear();
+    (onSnapshot as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("subscribeDocWrapper", () => {
+    it("Will emit the cached document first and then every snapshot", async () => {
+        await cacheStore.set("docs/a", {
+            fetchedAt: Date.now(),
+            doc: { testData: "cached" }
+        });
+        const callback = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const unsubscribe = subscribeDocWrapper(null, "docs/a", {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: Number.POSITIVE_INFINITY
+                }
+            },
+            cacheStore
+        }, callback);
+        await timeout(0);
+
+        mockListeners.get("docs/a").next(createDoc({ testData: "live" }));
+        await timeout(0);
+
+        expect(callback.mock.calls).toEqual([[{ testData: "cached" }], [{ testData: "live" }]]);
+        expect((await cacheStore.get("docs/a"))?.doc).toEqual({ testData: "live" });
+        unsubscribe();
+    });
+
+    it("Will not cache snapshots served from Firestore's offline cache", async () => {
+        const cachedEntry = {
+            fetchedAt: Date.now(),
+            doc: { testData: "cached" }
+        }
+        await cacheStore.set("docs/a", cachedEntry);
+        const callback = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const unsubscribe = subscribeDocWrapper(null, "docs/a", {
+            cacheOptions: {
+                enabled: true
+            },
+            cacheStore
+        }, callback);
+        await timeout(0);
+
+        mockListeners.get("docs/a").next(createDoc({ testData: "offline" }, true));
+        await timeout(0);
+
+        expect(callback).toHaveBeenLastCalledWith({ testData: "offline" });
+        expect(await cacheStore.get("docs/a")).toEqual(cachedEntry);
+        unsubscribe();
+    });
+
+    it("Will not emit a stale cached document", async () => {
+        await cacheStore.set("docs/a", {
+            fetchedAt: 0,
+            doc: { testData: "cached" }
+        });
+        const callback = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const unsubscribe = subscribeDocWrapper(null, "docs/a", {
+            cacheOptions: {
+                enabled: true,
+                cacheTime: {
+                    time: 1000
+                }
+            },
+            cacheStore
+        }, callback);
+        await timeout(0);
+
+        expect(callback).not.toHaveBeenCalled();
+        unsubscribe();
+    });
+
+    it("Will share a single listener between subscribers of the same path", async () => {
+        const firstCallback = jest.fn();
+        const secondCallback = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const firstUnsubscribe = subscribeDocWrapper(null, "docs/a", { cacheStore }, firstCallback);
+        mockListeners.get("docs/a").next(createDoc({ testData: "live" }));
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const secondUnsubscribe = subscribeDocWrapper(null, "docs/a", { cacheStore }, secondCallback);
+
+        expect(onSnapshot).toHaveBeenCalledTimes(1);
+        // Late subscribers get the latest snapshot right away
+        expect(secondCallback).toHaveBeenCalledWith({ testData: "live" });
+
+        const { unsubscribe } = mockListeners.get("docs/a");
+        firstUnsubscribe();
+        expect(unsubscribe).not.toHaveBeenCalled();
+        secondUnsubscribe();
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it("Will report listener errors and attach a new listener for the next subscriber", async () => {
+        const onError = jest.fn();
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        subscribeDocWrapper(null, "docs/a", { cacheStore }, jest.fn(), onError);
+        mockListeners.get("docs/a").error({ code: "permission-denied" });
+        expect(onError).toHaveBeenCalledWith({ code: "permission-denied" });
+
+        // @ts-expect-error - Firestore is not being used in the mocked onSnapshot and doc methods
+        const unsubscribe = subscribeDocWrapper(null, "docs/a", { cacheStore }, jest.fn());
+        expect(onSnapshot).toHaveBeenCalledTimes(2);
+        unsubscribe();
+    });
+});
@@ -0,0 +1,133 @@
+import "fake-indexeddb/auto";
+import { performance } from "perf_hooks";
+import { createCrossTabStore, createIndexedDBStore, createMemoryStore, createTieredStore } from "../src/index";
+import { CacheEntry, CacheStore } from "../src/types";
+
+const createEntry = (testData = "test"): CacheEntry => ({
+    fetchedAt: Date.now(),
+    doc: { testData }
+});
+const timeout = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Counts the reads that reach the wrapped store
+const countReads = (cacheStore: CacheStore) => {
+    const reads = { count: 0 };
+    const countingStore: CacheStore = {
+        ...cacheStore,
+        get: key => {
+            reads.count++;
+            return cacheStore.get(key);
+        },
+        getMany: keys => {
+            reads.count += keys.length;
+            return cacheStore.getMany(keys);
+        }
+    }
+    return { reads, countingStore };
+}
+
+let innerStore: CacheStore;
+
+beforeEach(() => {
+    innerStore = createMemoryStore();
+});
+
+describe("createTieredStore", () => {
+    it("Will only read an entry from the wrapped store once", async () => {
+        const entry = createEntry();
+        await innerStore.set("docs/a", entry);
+        const { reads, countingStore } = countReads(innerStore);
+        const cacheStore = createTieredStore(countingStore);
+
+        await cacheStore.get("docs/a");
+        await cacheStore.get("docs/a");
+        await cacheStore.getMany(["docs/a"]);
+
+        expect(reads.count).toBe(1);
+        expect(await cacheStore.get("docs/a")).toEqual(entry);
+    });
+
+    it("Will keep the memory in sync with writes and deletions", async () => {
+        const { reads, countingStore } = countReads(innerStore);
+        const cacheStore = createTieredStore(countingStore);
+
+        await cacheStore.set("docs/a", createEntry("first"));
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "first" });
+
+        await cacheStore.setMany([["docs/a", createEntry("second")]]);
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "second" });
+        expect(reads.count).toBe(0);
+
+        await cacheStore.del("docs/a");
+        expect(await cacheStore.get("docs/a")).toBeUndefined();
+        expect(await innerStore.get("docs/a")).toBeUndefined();
+
+        await cacheStore.set("docs/b", createEntry());
+        await cacheStore.clear();
+        expect(await cacheStore.get("docs/b")).toBeUndefined();
+    });
+
+    it("Will only keep the most recently used entries in memory", async () => {
+        const { reads, countingStore } = countReads(innerStore);
+        const cacheStore = createTieredStore(countingStore, { maxEntries: 2 });
+
+        await cacheStore.set("docs/a", createEntry());
+        await cacheStore.set("docs/b", createEntry());
+        // Reading "docs/a" makes "docs/b" the least recently used entry
+        await cacheStore.get("docs/a");
+        await cacheStore.set("docs/c", createEntry());
+
+        await cacheStore.get("docs/a");
+        await cacheStore.get("docs/c");
+        expect(reads.count).toBe(0);
+
+        await cacheStore.get("docs/b");
+        expect(reads.count).toBe(1);
+    });
+
+    it("Will not change the cache when a returned document is mutated", async () => {
+        const cacheStore = createTieredStore(innerStore);
+        const entry = createEntry("first");
+        await cacheStore.set("docs/a", entry);
+
+        entry.doc.testData = "mutated";
+        (await cacheStore.get("docs/a")).doc.testData = "mutated";
+
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "first" });
+    });
+
+    it("Will apply the changes made by other tabs", async () => {
+        const otherTab = createCrossTabStore(innerStore, { channelName: "tieredStoreTest" });
+        const thisTab = createCrossTabStore(innerStore, { channelName: "tieredStoreTest" });
+        const cacheStore = createTieredStore(thisTab);
+
+        await cacheStore.set("docs/a", createEntry("first"));
+        await otherTab.set("docs/a", createEntry("second"));
+        for (let attempt = 0; attempt < 100 && (await cacheStore.get("docs/a")).doc.testData !== "second"; attempt++) {
+            await timeout(10);
+        }
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ testData: "second" });
+
+        otherTab.close();
+        thisTab.close();
+    });
+
+    it("Will return memory hits faster than IndexedDB hits (benchmark)", async () => {
+        const readCount = 200;
+        const indexedDBStore = createIndexedDBStore("firestoreWrapperCacheBenchmark", "docs");
+        const cacheStore = createTieredStore(indexedDBStore);
+        await cacheStore.set("docs/a", createEntry());
+
+        const measure = async (store: CacheStore) => {
+            const start = performance.now();
+            for (let read = 0; read < readCount; read++) {
+                await store.get("docs/a");
+            }
+            return performance.now() - start;
+        }
+        const indexedDBTime = await measure(indexedDBStore);
+        const memoryTime = await measure(cacheStore);
+
+        expect(memoryTime).toBeLessThan(indexedDBTime);
+    });
+});
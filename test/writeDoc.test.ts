@@ -0,0 +1,195 @@
+import { deleteDoc, increment, setDoc, updateDoc } from "firebase/firestore";
+import { createMemoryStore, deleteDocWrapper, getDocWrapperDetailed, RetryExhaustedError, setDocWrapper, updateDocWrapper } from "../src/index";
+import { CacheStore } from "../src/types";
+
+const mockWrites = {
+    failuresLeft: 0,
+    errorCode: "unavailable"
+}
+
+jest.mock("firebase/firestore", () => {
+    const originalModule = jest.requireActual("firebase/firestore");
+    const write = jest.fn(async () => {
+        if (mockWrites.failuresLeft > 0) {
+            mockWrites.failuresLeft--;
+            throw { code: mockWrites.errorCode };
+        }
+    });
+
+    return {
+        __esModule: true,
+        ...originalModule,
+        doc: jest.fn((db, path) => {
+            return path;
+        }),
+        setDoc: write,
+        updateDoc: write,
+        deleteDoc: write
+    }
+});
+
+let cacheStore: CacheStore;
+
+const cachedEntry = (doc = { name: "test", address: { city: "Paris", zip: "75001" } }) => ({
+    fetchedAt: Date.now(),
+    exists: true,
+    doc
+});
+
+beforeEach(() => {
+    mockWrites.failuresLeft = 0;
+    mockWrites.errorCode = "unavailable";
+    (setDoc as jest.Mock).mockClear();
+    cacheStore = createMemoryStore();
+});
+
+describe("setDocWrapper", () => {
+    it("Will write the document through to the cache", async () => {
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore });
+
+        expect(setDoc).toHaveBeenCalledWith("docs/a", { name: "new" }, { merge: false });
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ name: "new" });
+
+        // @ts-expect-error - Firestore is not being used in the mocked getDoc and doc methods
+        const details = await getDocWrapperDetailed(null, "docs/a", { cacheStore, cacheOptions: { enabled: true, cacheTime: { time: 60000 } } });
+        expect(details.source).toBe("cache");
+    });
+
+    it("Will merge the document into the cached one", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { address: { city: "Lyon" } }, { cacheStore, merge: true });
+
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ name: "test", address: { city: "Lyon", zip: "75001" } });
+    });
+
+    it("Will invalidate the cache entry if asked to or if the document can't be known", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+        await cacheStore.set("docs/b", cachedEntry());
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore, cacheWrite: "invalidate" });
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/b", { visits: increment(1) }, { cacheStore });
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/c", { name: "new" }, { cacheStore, merge: true });
+
+        expect(await cacheStore.keys()).toEqual([]);
+    });
+
+    it("Will keep the locked cache time of the entry", async () => {
+        await cacheStore.set("docs/a", { ...cachedEntry(), persistentCacheTime: 60000 });
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore });
+
+        expect((await cacheStore.get("docs/a")).persistentCacheTime).toBe(60000);
+    });
+
+    it("Will retry the write", async () => {
+        mockWrites.failuresLeft = 2;
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore, retryOptions: { enabled: true, maxRetries: 3, retryDelay: 1 } });
+
+        expect(setDoc).toHaveBeenCalledTimes(3);
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ name: "new" });
+    });
+
+    it("Will leave the cache alone if the write fails", async () => {
+        expect.assertions(2);
+        mockWrites.failuresLeft = 1;
+        await cacheStore.set("docs/a", cachedEntry());
+
+        try {
+            // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+            await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore });
+        } catch (err) {
+            expect(err).toBeInstanceOf(RetryExhaustedError);
+        }
+        expect((await cacheStore.get("docs/a")).doc).toEqual(cachedEntry().doc);
+    });
+
+    it("Will write the document even if its cache entry can't be read", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+        const onError = jest.fn();
+        const brokenStore = { ...cacheStore, get: () => Promise.reject(new Error("Broken store")) };
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore: brokenStore, hooks: { onError } });
+
+        expect(setDoc).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(await cacheStore.get("docs/a")).toBeUndefined();
+    });
+
+    it("Will not reject a write that succeeded if the cache can't be updated", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+        const onError = jest.fn();
+        const brokenStore = { ...cacheStore, set: () => Promise.reject(new Error("Broken store")) };
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        await setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore: brokenStore, hooks: { onError } });
+
+        expect(setDoc).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(await cacheStore.get("docs/a")).toBeUndefined();
+    });
+
+    it("Will apply the write optimistically and roll it back if it fails", async () => {
+        expect.assertions(3);
+        let resolveWrite: () => void;
+        (setDoc as jest.Mock).mockImplementationOnce(() => new Promise<void>((_, reject) => {
+            resolveWrite = () => reject({ code: "permission-denied" });
+        }));
+        await cacheStore.set("docs/a", cachedEntry());
+
+        // @ts-expect-error - Firestore is not being used in the mocked setDoc and doc methods
+        const write = setDocWrapper(null, "docs/a", { name: "new" }, { cacheStore, optimistic: true });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ name: "new" });
+
+        resolveWrite();
+        try {
+            await write;
+        } catch (err) {
+            expect(err).toBeInstanceOf(RetryExhaustedError);
+        }
+        expect((await cacheStore.get("docs/a")).doc).toEqual(cachedEntry().doc);
+    });
+});
+
+describe("updateDocWrapper", () => {
+    it("Will apply the updated fields to the cached document", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+
+        // @ts-expect-error - Firestore is not being used in the mocked updateDoc and doc methods
+        await updateDocWrapper(null, "docs/a", { "address.city": "Lyon", age: 30 }, { cacheStore });
+
+        expect(updateDoc).toHaveBeenCalledWith("docs/a", { "address.city": "Lyon", age: 30 });
+        expect((await cacheStore.get("docs/a")).doc).toEqual({ name: "test", age: 30, address: { city: "Lyon", zip: "75001" } });
+    });
+
+    it("Will invalidate documents that aren't cached", async () => {
+        await cacheStore.set("docs/a", { fetchedAt: Date.now(), exists: false, doc: undefined });
+
+        // @ts-expect-error - Firestore is not being used in the mocked updateDoc and doc methods
+        await updateDocWrapper(null, "docs/a", { age: 30 }, { cacheStore });
+
+        expect(await cacheStore.get("docs/a")).toBeUndefined();
+    });
+});
+
+describe("deleteDocWrapper", () => {
+    it("Will cache the document as missing", async () => {
+        await cacheStore.set("docs/a", cachedEntry());
+
+        // @ts-expect-error - Firestore is not being used in the mocked deleteDoc and doc methods
+        await deleteDocWrapper(null, "docs/a", { cacheStore });
+
+        expect(deleteDoc).toHaveBeenCalledWith("docs/a");
+        expect(await cacheStore.get("docs/a")).toMatchObject({ exists: false, doc: undefined });
+    });
+});